@@ -0,0 +1,654 @@
+import { useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, SlidersHorizontal, Trash2 } from 'lucide-react';
+import {
+  AgentProfile,
+  AgentSettings,
+  createAgentProfile,
+  DEFAULT_AGENT_SETTINGS,
+  DEFAULT_BASE_URLS,
+  DemoSettings,
+  EmbeddingProviderId,
+  deleteAgentProfile,
+  EscalationSettings,
+  getActiveAgentId,
+  getAgentSettings,
+  IntentMatchingSettings,
+  LanguageModelSettings,
+  listAgentProfiles,
+  OrderFieldMap,
+  OrderLookupSettings,
+  renameAgentProfile,
+  saveAgentSettings,
+  setActiveAgentId,
+  SpeechToTextMode,
+  SpeechToTextProviderId,
+  SpeechToTextSettings,
+  TextToSpeechProviderId,
+  TextToSpeechSettings,
+} from '@/lib/settings';
+import { getSpeechToTextProvider, listSpeechToTextProviders } from '@/lib/stt-providers';
+import { getTextToSpeechProvider, listTextToSpeechProviders } from '@/lib/tts-providers';
+import { isWebSpeechSupported } from '@/lib/web-speech';
+import { getEmbeddingProvider, listEmbeddingProviders } from '@/lib/embeddings';
+import { DEFAULT_LANGUAGE, LanguageCode, SUPPORTED_LANGUAGES } from '@/lib/languages';
+import { listTools } from '@/lib/tools';
+import { describeOrder, getSampleOrders, ORDER_TEMPLATE_FIELDS } from '@/lib/orders';
+import { describeHold } from '@/lib/escalation';
+import { VoicePicker } from './VoicePicker';
+
+// The main voice covers the default language; these can each get their own
+const otherLanguages = (Object.keys(SUPPORTED_LANGUAGES) as LanguageCode[]).filter((code) => code !== DEFAULT_LANGUAGE);
+
+export const AgentSettingsPanel = () => {
+  const [profiles, setProfiles] = useState<AgentProfile[]>(() => listAgentProfiles());
+  const [activeAgentId, setActiveAgent] = useState(() => getActiveAgentId());
+  const [settings, setSettings] = useState<AgentSettings>(() => getAgentSettings());
+
+  const activeProfile = profiles.find((profile) => profile.id === activeAgentId);
+
+  const switchAgent = (agentId: string) => {
+    setActiveAgentId(agentId);
+    setActiveAgent(agentId);
+    setSettings(getAgentSettings(agentId));
+  };
+
+  const addAgent = () => {
+    const profile = createAgentProfile(`Agent ${profiles.length + 1}`);
+    setProfiles(listAgentProfiles());
+    switchAgent(profile.id);
+  };
+
+  const renameAgent = (name: string) => {
+    renameAgentProfile(activeAgentId, name);
+    setProfiles(listAgentProfiles());
+  };
+
+  const deleteAgent = () => {
+    if (!activeProfile || !window.confirm(`Delete the "${activeProfile.name}" agent and its settings?`)) return;
+    deleteAgentProfile(activeAgentId);
+    setProfiles(listAgentProfiles());
+    switchAgent(getActiveAgentId());
+  };
+
+  // Merge over what's stored, since other controls (like the demo toggle) save settings too
+  const updateSettings = (patch: Partial<AgentSettings>) => {
+    const next = { ...getAgentSettings(), ...patch };
+    setSettings(next);
+    saveAgentSettings(next);
+  };
+
+  const updateStt = (patch: Partial<SpeechToTextSettings>) => {
+    updateSettings({ stt: { ...settings.stt, ...patch } });
+  };
+
+  const updateLlm = (patch: Partial<LanguageModelSettings>) => {
+    updateSettings({ llm: { ...settings.llm, ...patch } });
+  };
+
+  const updateTts = (patch: Partial<TextToSpeechSettings>) => {
+    updateSettings({ tts: { ...settings.tts, ...patch } });
+  };
+
+  const updateMatching = (patch: Partial<IntentMatchingSettings>) => {
+    updateSettings({ matching: { ...settings.matching, ...patch } });
+  };
+
+  const updateOrders = (patch: Partial<OrderLookupSettings>) => {
+    updateSettings({ orders: { ...settings.orders, ...patch } });
+  };
+
+  const updateEscalation = (patch: Partial<EscalationSettings>) => {
+    updateSettings({ escalation: { ...settings.escalation, ...patch } });
+  };
+
+  const sttProvider = getSpeechToTextProvider(settings.stt.provider);
+  const ttsProvider = getTextToSpeechProvider(settings.tts.provider);
+  const embeddingProvider = getEmbeddingProvider(settings.matching.embeddingProvider);
+
+  return (
+    <Card className="p-4 space-y-4">
+      <div className="flex items-center gap-2">
+        <SlidersHorizontal className="h-4 w-4" />
+        <h4 className="font-medium">Agent Configuration</h4>
+      </div>
+
+      {/* Agents: each keeps its own providers, voices and behaviour; calls use the selected one */}
+      <div className="space-y-2">
+        <Label htmlFor="agent-profile">Agent</Label>
+        <div className="flex gap-2">
+          <Select value={activeAgentId} onValueChange={switchAgent}>
+            <SelectTrigger id="agent-profile">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {profiles.map((profile) => (
+                <SelectItem key={profile.id} value={profile.id}>
+                  {profile.name || 'Untitled Agent'}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button size="icon" variant="outline" onClick={addAgent} title="New agent from these settings">
+            <Plus className="h-4 w-4" />
+          </Button>
+          <Button size="icon" variant="outline" onClick={deleteAgent} disabled={profiles.length <= 1} title="Delete agent">
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+        <Input
+          aria-label="Agent name"
+          value={activeProfile?.name ?? ''}
+          onChange={(e) => renameAgent(e.target.value)}
+        />
+      </div>
+
+      {/* Speech-to-Text */}
+      <div className="space-y-3">
+        <div className="space-y-2">
+          <Label htmlFor="stt-mode">Transcription Mode</Label>
+          <Select
+            value={settings.stt.mode}
+            onValueChange={(value) => updateStt({ mode: value as SpeechToTextMode })}
+          >
+            <SelectTrigger id="stt-mode">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="recorder">Record and upload to provider</SelectItem>
+              <SelectItem value="web-speech">Browser speech recognition</SelectItem>
+            </SelectContent>
+          </Select>
+          {settings.stt.mode === 'web-speech' && !isWebSpeechSupported() && (
+            <p className="text-xs text-orange-500">
+              This browser has no speech recognition; calls will fall back to the provider below.
+            </p>
+          )}
+        </div>
+
+        {(settings.stt.mode === 'recorder' || !isWebSpeechSupported()) && (
+          <div className="space-y-2">
+            <Label htmlFor="stt-trailing-silence">End of Turn Silence (ms)</Label>
+            <Input
+              id="stt-trailing-silence"
+              type="number"
+              min={200}
+              step={100}
+              value={settings.stt.trailingSilenceMs}
+              onChange={(e) => updateStt({ trailingSilenceMs: Math.max(200, Number(e.target.value) || 200) })}
+            />
+            <p className="text-xs text-muted-foreground">
+              Recording starts when the caller starts speaking and their turn is sent once they've been quiet this long.
+              Raise it for callers who pause mid-sentence.
+            </p>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="stt-provider">Speech-to-Text Provider</Label>
+          <Select
+            value={settings.stt.provider}
+            onValueChange={(value) => updateStt({ provider: value as SpeechToTextProviderId, baseUrl: '', model: '' })}
+          >
+            <SelectTrigger id="stt-provider">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {listSpeechToTextProviders().map((provider) => (
+                <SelectItem key={provider.id} value={provider.id}>
+                  {provider.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="stt-base-url">Base URL</Label>
+          <Input
+            id="stt-base-url"
+            placeholder={sttProvider.defaultBaseUrl || 'http://localhost:8000'}
+            value={settings.stt.baseUrl}
+            onChange={(e) => updateStt({ baseUrl: e.target.value })}
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-2">
+            <Label htmlFor="stt-model">Model</Label>
+            <Input
+              id="stt-model"
+              placeholder={sttProvider.defaultModel}
+              value={settings.stt.model}
+              onChange={(e) => updateStt({ model: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="stt-language">Language</Label>
+            <Input
+              id="stt-language"
+              placeholder="Auto-detect"
+              value={settings.stt.language}
+              onChange={(e) => updateStt({ language: e.target.value })}
+            />
+          </div>
+        </div>
+      </div>
+
+      {/* Language Model */}
+      <div className="space-y-3 pt-4 border-t border-border">
+        <div className="space-y-2">
+          <Label htmlFor="llm-base-url">Chat Base URL</Label>
+          <Input
+            id="llm-base-url"
+            placeholder={DEFAULT_BASE_URLS.openai}
+            value={settings.llm.baseUrl}
+            onChange={(e) => updateLlm({ baseUrl: e.target.value })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="llm-model">Chat Model</Label>
+          <Input
+            id="llm-model"
+            placeholder="gpt-4o-mini"
+            value={settings.llm.model}
+            onChange={(e) => updateLlm({ model: e.target.value })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="llm-system-prompt">System Prompt</Label>
+          <Textarea
+            id="llm-system-prompt"
+            rows={4}
+            value={settings.llm.systemPrompt}
+            onChange={(e) => updateLlm({ systemPrompt: e.target.value })}
+          />
+          <p className="text-xs text-muted-foreground">
+            Used for questions outside the predefined answers. Any OpenAI-compatible server works (vLLM, Ollama, LocalAI); the OpenAI key is only required for the hosted API.
+          </p>
+        </div>
+        <div className="flex items-center justify-between gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="llm-enable-tools">Let the model call tools</Label>
+            <p className="text-xs text-muted-foreground">
+              {listTools().map((tool) => tool.name).join(', ')}. Turn off for servers without function calling.
+            </p>
+          </div>
+          <Switch
+            id="llm-enable-tools"
+            checked={settings.llm.enableTools}
+            onCheckedChange={(checked) => updateLlm({ enableTools: checked })}
+          />
+        </div>
+      </div>
+
+      {/* Text-to-Speech */}
+      <div className="space-y-3 pt-4 border-t border-border">
+        <div className="space-y-2">
+          <Label htmlFor="tts-provider">Text-to-Speech Provider</Label>
+          <Select
+            value={settings.tts.provider}
+            onValueChange={(value) => updateTts({ provider: value as TextToSpeechProviderId, baseUrl: '', model: '', voice: '' })}
+          >
+            <SelectTrigger id="tts-provider">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {listTextToSpeechProviders().map((provider) => (
+                <SelectItem key={provider.id} value={provider.id}>
+                  {provider.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {settings.tts.provider !== 'browser' && (
+          <div className="space-y-2">
+            <Label htmlFor="tts-base-url">Base URL</Label>
+            <Input
+              id="tts-base-url"
+              placeholder={ttsProvider.defaultBaseUrl || 'http://localhost:8880'}
+              value={settings.tts.baseUrl}
+              onChange={(e) => updateTts({ baseUrl: e.target.value })}
+            />
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 gap-2">
+          {settings.tts.provider !== 'browser' && (
+            <div className="space-y-2">
+              <Label htmlFor="tts-model">Model</Label>
+              <Input
+                id="tts-model"
+                placeholder={ttsProvider.defaultModel}
+                value={settings.tts.model}
+                onChange={(e) => updateTts({ model: e.target.value })}
+              />
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="tts-voice">Voice</Label>
+            <Input
+              id="tts-voice"
+              placeholder={ttsProvider.defaultVoice || 'System default'}
+              value={settings.tts.voice}
+              onChange={(e) => updateTts({ voice: e.target.value })}
+            />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-3 gap-3">
+          {otherLanguages.map((code) => (
+            <div key={code} className="space-y-2">
+              <Label htmlFor={`tts-voice-${code}`}>{SUPPORTED_LANGUAGES[code].name} Voice</Label>
+              <Input
+                id={`tts-voice-${code}`}
+                placeholder="Same as above"
+                value={settings.tts.languageVoices[code] ?? ''}
+                onChange={(e) => updateTts({ languageVoices: { ...settings.tts.languageVoices, [code]: e.target.value } })}
+              />
+            </div>
+          ))}
+        </div>
+
+        {settings.tts.provider === 'elevenlabs' && (
+          <VoicePicker key={activeAgentId} settings={settings.tts} onChange={updateTts} />
+        )}
+      </div>
+
+      {/* FAQ Matching */}
+      <div className="space-y-3 pt-4 border-t border-border">
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-2">
+            <Label htmlFor="matching-method">FAQ Matching</Label>
+            <Select
+              value={settings.matching.method}
+              onValueChange={(value) => updateMatching({ method: value as IntentMatchingSettings['method'] })}
+            >
+              <SelectTrigger id="matching-method">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="embeddings">Semantic (embeddings)</SelectItem>
+                <SelectItem value="keywords">Keyword rules</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {settings.matching.method === 'embeddings' && (
+            <div className="space-y-2">
+              <Label htmlFor="embedding-provider">Embeddings</Label>
+              <Select
+                value={settings.matching.embeddingProvider}
+                onValueChange={(value) => updateMatching({ embeddingProvider: value as EmbeddingProviderId, baseUrl: '', model: '' })}
+              >
+                <SelectTrigger id="embedding-provider">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {listEmbeddingProviders().map((provider) => (
+                    <SelectItem key={provider.id} value={provider.id}>
+                      {provider.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+
+        {settings.matching.method === 'embeddings' && (
+          <>
+            {embeddingProvider.defaultBaseUrl && (
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-2">
+                  <Label htmlFor="embedding-base-url">Base URL</Label>
+                  <Input
+                    id="embedding-base-url"
+                    placeholder={embeddingProvider.defaultBaseUrl}
+                    value={settings.matching.baseUrl}
+                    onChange={(e) => updateMatching({ baseUrl: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="embedding-model">Model</Label>
+                  <Input
+                    id="embedding-model"
+                    placeholder={embeddingProvider.defaultModel}
+                    value={settings.matching.model}
+                    onChange={(e) => updateMatching({ model: e.target.value })}
+                  />
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <div className="flex justify-between text-xs">
+                <Label>Confidence Threshold</Label>
+                <span className="text-muted-foreground">{settings.matching.confidenceThreshold.toFixed(2)}</span>
+              </div>
+              <Slider
+                min={0}
+                max={1}
+                step={0.05}
+                value={[settings.matching.confidenceThreshold]}
+                onValueChange={([value]) => updateMatching({ confidenceThreshold: value })}
+              />
+              <p className="text-xs text-muted-foreground">
+                Messages below the threshold are checked against the keyword rules before falling through.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="below-threshold">Below Threshold</Label>
+              <Select
+                value={settings.matching.belowThreshold}
+                onValueChange={(value) => updateMatching({ belowThreshold: value as IntentMatchingSettings['belowThreshold'] })}
+              >
+                <SelectTrigger id="below-threshold">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="llm">Answer with the language model</SelectItem>
+                  <SelectItem value="clarify">Ask a clarifying question when close</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </>
+        )}
+      </div>
+
+      {/* Order Lookup */}
+      <div className="space-y-3 pt-4 border-t border-border">
+        <div className="space-y-2">
+          <Label htmlFor="orders-source">Order Lookup</Label>
+          <Select
+            value={settings.orders.source}
+            onValueChange={(value) => updateOrders({ source: value as OrderLookupSettings['source'] })}
+          >
+            <SelectTrigger id="orders-source">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="sample">Sample orders (built in)</SelectItem>
+              <SelectItem value="api">Order API (REST)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {settings.orders.source === 'api' && (
+          <>
+            <div className="space-y-2">
+              <Label htmlFor="orders-endpoint">Endpoint</Label>
+              <Input
+                id="orders-endpoint"
+                placeholder={DEFAULT_AGENT_SETTINGS.orders.endpoint}
+                value={settings.orders.endpoint}
+                onChange={(e) => updateOrders({ endpoint: e.target.value })}
+              />
+              <p className="text-xs text-muted-foreground">
+                GET request with {'{orderNumber}'} and {'{email}'} filled in; a 404 means no such order. The default is a mock API the dev server serves from the sample orders.
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label>Response Fields</Label>
+              <div className="grid grid-cols-2 gap-2">
+                {(Object.keys(settings.orders.fieldMap) as Array<keyof OrderFieldMap>).map((field) => (
+                  <div key={field} className="space-y-1">
+                    <Label htmlFor={`orders-field-${field}`} className="text-xs text-muted-foreground">{field}</Label>
+                    <Input
+                      id={`orders-field-${field}`}
+                      className="h-8 font-mono text-xs"
+                      placeholder={DEFAULT_AGENT_SETTINGS.orders.fieldMap[field]}
+                      value={settings.orders.fieldMap[field]}
+                      onChange={(e) => updateOrders({ fieldMap: { ...settings.orders.fieldMap, [field]: e.target.value } })}
+                    />
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">Dot paths into the API's JSON, e.g. shipment.lastScan.location.</p>
+            </div>
+          </>
+        )}
+
+        <div className="space-y-2">
+          <Label>Spoken Status</Label>
+          {(Object.keys(SUPPORTED_LANGUAGES) as LanguageCode[]).map((code) => (
+            <Textarea
+              key={code}
+              rows={2}
+              aria-label={`Spoken status (${SUPPORTED_LANGUAGES[code].name})`}
+              placeholder={`${SUPPORTED_LANGUAGES[code].name}: built-in reply for each status`}
+              value={settings.orders.responseTemplates[code] ?? ''}
+              onChange={(e) => updateOrders({ responseTemplates: { ...settings.orders.responseTemplates, [code]: e.target.value } })}
+            />
+          ))}
+          <p className="text-xs text-muted-foreground">
+            Placeholders: {ORDER_TEMPLATE_FIELDS.map((field) => `{${field}}`).join(' ')}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            Preview: {describeOrder(getSampleOrders()[0], DEFAULT_LANGUAGE, settings.orders)}
+          </p>
+        </div>
+      </div>
+
+      {/* Escalation */}
+      <div className="space-y-3 pt-4 border-t border-border">
+        <div className="flex items-center justify-between gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="escalation-enabled">Hand off to a person</Label>
+            <p className="text-xs text-muted-foreground">
+              When the caller asks for a person, or the agent keeps falling back or the caller keeps sounding upset. Operators see the call at /operator.
+            </p>
+          </div>
+          <Switch
+            id="escalation-enabled"
+            checked={settings.escalation.enabled}
+            onCheckedChange={(checked) => updateEscalation({ enabled: checked })}
+          />
+        </div>
+
+        {settings.escalation.enabled && (
+          <>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="escalation-fallbacks">Fallbacks in a row</Label>
+                <Input
+                  id="escalation-fallbacks"
+                  type="number"
+                  min={1}
+                  value={settings.escalation.maxFallbacks}
+                  onChange={(e) => updateEscalation({ maxFallbacks: Math.max(1, Number(e.target.value) || 1) })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="escalation-negative-turns">Upset turns in a row</Label>
+                <Input
+                  id="escalation-negative-turns"
+                  type="number"
+                  min={1}
+                  value={settings.escalation.maxNegativeTurns}
+                  onChange={(e) => updateEscalation({ maxNegativeTurns: Math.max(1, Number(e.target.value) || 1) })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Hold Message</Label>
+              {(Object.keys(SUPPORTED_LANGUAGES) as LanguageCode[]).map((code) => (
+                <Textarea
+                  key={code}
+                  rows={2}
+                  aria-label={`Hold message (${SUPPORTED_LANGUAGES[code].name})`}
+                  placeholder={`${SUPPORTED_LANGUAGES[code].name}: ${describeHold(DEFAULT_AGENT_SETTINGS.escalation, code)}`}
+                  value={settings.escalation.holdMessages[code] ?? ''}
+                  onChange={(e) => updateEscalation({ holdMessages: { ...settings.escalation.holdMessages, [code]: e.target.value } })}
+                />
+              ))}
+            </div>
+          </>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="operator-relay-url">Operator Relay</Label>
+          <Input
+            id="operator-relay-url"
+            placeholder="wss://relay.example.com"
+            value={settings.operator.relayUrl}
+            onChange={(e) => updateSettings({ operator: { ...settings.operator, relayUrl: e.target.value } })}
+          />
+          <p className="text-xs text-muted-foreground">
+            A WebSocket server that forwards each message to the other clients, for operator consoles on other machines. Blank reaches consoles in this browser only.
+          </p>
+        </div>
+
+        {settings.operator.relayUrl.trim() && (
+          <div className="space-y-2">
+            <Label htmlFor="operator-relay-token">Relay Token</Label>
+            <Input
+              id="operator-relay-token"
+              type="password"
+              placeholder="Required to use the relay"
+              value={settings.operator.relayToken}
+              onChange={(e) => updateSettings({ operator: { ...settings.operator, relayToken: e.target.value } })}
+            />
+            <p className="text-xs text-muted-foreground">
+              Relay messages are signed with this shared secret, and unsigned ones are ignored, so only consoles with the same token can take calls over or speak to callers.
+              The relay still sees every transcript: only use wss:// on a server you control, and use a long random token.
+            </p>
+          </div>
+        )}
+      </div>
+
+      {/* Demo Mode */}
+      <div className="space-y-2 pt-4 border-t border-border">
+        <Label htmlFor="demo-voice">Demo Mode Voice</Label>
+        <Select
+          value={settings.demo.voice}
+          onValueChange={(value) => updateSettings({ demo: { ...getAgentSettings().demo, voice: value as DemoSettings['voice'] } })}
+        >
+          <SelectTrigger id="demo-voice">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="browser">Browser speech synthesis</SelectItem>
+            <SelectItem value="demo-tone">Tone only</SelectItem>
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-muted-foreground">
+          Demo mode needs no keys or network: type or replay customer lines and the agent answers with a scripted model.
+        </p>
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        Settings are saved in this browser and apply to the next call.
+      </p>
+    </Card>
+  );
+};
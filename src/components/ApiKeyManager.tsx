@@ -6,39 +6,75 @@ import { Badge } from '@/components/ui/badge';
 import { Card } from '@/components/ui/card';
 import { Eye, EyeOff, Key, CheckCircle, AlertCircle } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { ApiKeys, getApiKeys } from '@/lib/ai-services';
+import { AgentSettings, DEFAULT_BASE_URLS, getAgentSettings } from '@/lib/settings';
+import { orderLookupUrl } from '@/lib/orders';
+import { trimTrailingSlash } from '@/lib/utils';
 
-interface ApiKeys {
-  openaiKey: string;
-  elevenlabsKey: string;
+const keyFields: Array<{ key: keyof ApiKeys; id: string; label: string; placeholder: string }> = [
+  { key: 'openaiKey', id: 'openai-key', label: 'OpenAI API Key', placeholder: 'sk-...' },
+  { key: 'elevenlabsKey', id: 'elevenlabs-key', label: 'ElevenLabs API Key', placeholder: 'Enter ElevenLabs API key...' },
+  { key: 'deepgramKey', id: 'deepgram-key', label: 'Deepgram API Key', placeholder: 'Enter Deepgram API key...' },
+  { key: 'orderApiKey', id: 'order-api-key', label: 'Order API Key', placeholder: 'Enter order API token...' },
+];
+
+// Every OpenAI-compatible endpoint the agent is set up to call, with the services that use it
+function openAICompatibleEndpoints(settings: AgentSettings): Array<{ baseUrl: string; services: string[] }> {
+  const endpoints: Array<[string, string]> = [['chat', settings.llm.baseUrl || DEFAULT_BASE_URLS.openai]];
+  if (settings.stt.mode === 'recorder' && settings.stt.provider === 'openai-whisper') {
+    endpoints.push(['speech-to-text', settings.stt.baseUrl || DEFAULT_BASE_URLS.openai]);
+  } else if (settings.stt.mode === 'recorder' && settings.stt.provider === 'whisper-compatible' && settings.stt.baseUrl) {
+    endpoints.push(['speech-to-text', settings.stt.baseUrl]);
+  }
+  if (settings.tts.provider === 'openai-tts') {
+    endpoints.push(['text-to-speech', settings.tts.baseUrl || DEFAULT_BASE_URLS.openai]);
+  } else if (settings.tts.provider === 'openai-compatible-tts' && settings.tts.baseUrl) {
+    endpoints.push(['text-to-speech', settings.tts.baseUrl]);
+  }
+  if (settings.matching.method === 'embeddings' && settings.matching.embeddingProvider === 'openai-embeddings') {
+    endpoints.push(['embeddings', settings.matching.baseUrl || DEFAULT_BASE_URLS.openai]);
+  }
+
+  const byUrl = new Map<string, string[]>();
+  for (const [service, baseUrl] of endpoints) {
+    const url = trimTrailingSlash(baseUrl);
+    byUrl.set(url, [...(byUrl.get(url) ?? []), service]);
+  }
+  return Array.from(byUrl, ([baseUrl, services]) => ({ baseUrl, services }));
 }
 
 export const ApiKeyManager = () => {
   const [apiKeys, setApiKeys] = useState<ApiKeys>({ 
     openaiKey: '', 
-    elevenlabsKey: '' 
+    elevenlabsKey: '',
+    deepgramKey: '',
+    orderApiKey: ''
   });
-  const [showKeys, setShowKeys] = useState({ 
+  const [showKeys, setShowKeys] = useState<Record<keyof ApiKeys, boolean>>({ 
     openaiKey: false, 
-    elevenlabsKey: false 
+    elevenlabsKey: false,
+    deepgramKey: false,
+    orderApiKey: false
   });
-  const [keyStatus, setKeyStatus] = useState({
+  const [keyStatus, setKeyStatus] = useState<Record<keyof ApiKeys, boolean>>({
     openaiKey: false,
-    elevenlabsKey: false
+    elevenlabsKey: false,
+    deepgramKey: false,
+    orderApiKey: false
   });
   
   const { toast } = useToast();
 
   useEffect(() => {
     // Load API keys from sessionStorage (temporary storage for demo)
-    const savedKeys = sessionStorage.getItem('ai-agent-api-keys');
-    if (savedKeys) {
-      const keys = JSON.parse(savedKeys);
-      setApiKeys(keys);
-      setKeyStatus({
-        openaiKey: !!keys.openaiKey,
-        elevenlabsKey: !!keys.elevenlabsKey
-      });
-    }
+    const keys = getApiKeys();
+    setApiKeys(keys);
+    setKeyStatus({
+      openaiKey: !!keys.openaiKey,
+      elevenlabsKey: !!keys.elevenlabsKey,
+      deepgramKey: !!keys.deepgramKey,
+      orderApiKey: !!keys.orderApiKey
+    });
   }, []);
 
   const handleKeyChange = (keyType: keyof ApiKeys, value: string) => {
@@ -63,29 +99,69 @@ export const ApiKeyManager = () => {
     const key = apiKeys[keyType];
     if (!key) return;
 
+    // Test against the endpoints the agent is configured to call
+    const settings = getAgentSettings();
+
     try {
       if (keyType === 'openaiKey') {
-        // Test OpenAI API key
-        const response = await fetch('https://api.openai.com/v1/models', {
-          headers: { 'Authorization': `Bearer ${key}` }
-        });
-        
-        if (response.ok) {
-          toast({ title: 'OpenAI API Key Valid', description: 'Successfully connected to OpenAI' });
+        // Test the key against each OpenAI-compatible endpoint in use, since chat, speech and embeddings can each have their own
+        const endpoints = openAICompatibleEndpoints(settings);
+        const results = await Promise.all(endpoints.map(async (endpoint) => {
+          try {
+            const response = await fetch(`${endpoint.baseUrl}/v1/models`, {
+              headers: { 'Authorization': `Bearer ${key}` }
+            });
+            return { ...endpoint, ok: response.ok };
+          } catch {
+            return { ...endpoint, ok: false };
+          }
+        }));
+        const describe = (list: typeof results) => list.map(({ baseUrl, services }) => `${baseUrl} (${services.join(', ')})`).join('; ');
+        const failed = results.filter(result => !result.ok);
+
+        if (failed.length === 0) {
+          toast({ title: 'OpenAI API Key Valid', description: `Successfully connected to ${describe(results)}` });
         } else {
-          toast({ title: 'Invalid OpenAI API Key', variant: 'destructive' });
+          toast({ title: 'Invalid OpenAI API Key', description: `Rejected or unreachable: ${describe(failed)}`, variant: 'destructive' });
         }
       } else if (keyType === 'elevenlabsKey') {
         // Test ElevenLabs API key
-        const response = await fetch('https://api.elevenlabs.io/v1/user', {
+        const ttsBaseUrl = settings.tts.provider === 'elevenlabs' ? settings.tts.baseUrl : '';
+        const baseUrl = trimTrailingSlash(ttsBaseUrl || DEFAULT_BASE_URLS.elevenlabs);
+        const response = await fetch(`${baseUrl}/v1/user`, {
           headers: { 'xi-api-key': key }
         });
         
         if (response.ok) {
-          toast({ title: 'ElevenLabs API Key Valid', description: 'Successfully connected to ElevenLabs' });
+          toast({ title: 'ElevenLabs API Key Valid', description: `Successfully connected to ${baseUrl}` });
         } else {
           toast({ title: 'Invalid ElevenLabs API Key', variant: 'destructive' });
         }
+      } else if (keyType === 'deepgramKey') {
+        // Test Deepgram API key
+        const sttBaseUrl = settings.stt.provider === 'deepgram' ? settings.stt.baseUrl : '';
+        const baseUrl = trimTrailingSlash(sttBaseUrl || DEFAULT_BASE_URLS.deepgram);
+        const response = await fetch(`${baseUrl}/v1/projects`, {
+          headers: { 'Authorization': `Token ${key}` }
+        });
+        
+        if (response.ok) {
+          toast({ title: 'Deepgram API Key Valid', description: `Successfully connected to ${baseUrl}` });
+        } else {
+          toast({ title: 'Invalid Deepgram API Key', variant: 'destructive' });
+        }
+      } else if (keyType === 'orderApiKey') {
+        // Look up an order that won't exist; anything but an auth error means the token was accepted
+        const url = orderLookupUrl(settings.orders, '0', '');
+        const response = await fetch(url, {
+          headers: { 'Authorization': `Bearer ${key}` }
+        });
+
+        if (response.status !== 401 && response.status !== 403) {
+          toast({ title: 'Order API Key Accepted', description: `Successfully connected to ${new URL(url, window.location.href).origin}` });
+        } else {
+          toast({ title: 'Invalid Order API Key', variant: 'destructive' });
+        }
       }
     } catch (error) {
       toast({ 
@@ -100,6 +176,8 @@ export const ApiKeyManager = () => {
     <div className="text-xs text-muted-foreground space-y-2">
       <p><strong>OpenAI API Key:</strong> Get from <a href="https://platform.openai.com/api-keys" target="_blank" rel="noopener noreferrer" className="text-primary hover:underline">platform.openai.com</a> (Free tier: $18 credit)</p>
       <p><strong>ElevenLabs API Key:</strong> Get from <a href="https://elevenlabs.io/app/speech-synthesis" target="_blank" rel="noopener noreferrer" className="text-primary hover:underline">elevenlabs.io</a> (Free tier: 10k characters/month)</p>
+      <p><strong>Deepgram API Key:</strong> Only needed when Deepgram is the speech-to-text provider. Get from <a href="https://console.deepgram.com" target="_blank" rel="noopener noreferrer" className="text-primary hover:underline">console.deepgram.com</a></p>
+      <p><strong>Order API Key:</strong> Only needed when order lookups use your own order API and it requires a bearer token.</p>
       <p className="text-yellow-500">⚠️ Keys are stored temporarily in your browser session only</p>
     </div>
   );
@@ -112,97 +190,52 @@ export const ApiKeyManager = () => {
       </div>
 
       <div className="space-y-4">
-        {/* OpenAI API Key */}
-        <div className="space-y-2">
-          <div className="flex items-center justify-between">
-            <Label htmlFor="openai-key" className="flex items-center gap-2">
-              OpenAI API Key
-              {keyStatus.openaiKey ? (
-                <CheckCircle className="h-3 w-3 text-green-500" />
-              ) : (
-                <AlertCircle className="h-3 w-3 text-orange-500" />
-              )}
-            </Label>
-            <Badge variant={keyStatus.openaiKey ? "default" : "secondary"}>
-              {keyStatus.openaiKey ? "Set" : "Missing"}
-            </Badge>
-          </div>
-          
-          <div className="flex gap-2">
-            <div className="relative flex-1">
-              <Input
-                id="openai-key"
-                type={showKeys.openaiKey ? "text" : "password"}
-                placeholder="sk-..."
-                value={apiKeys.openaiKey}
-                onChange={(e) => handleKeyChange('openaiKey', e.target.value)}
-              />
-              <Button
-                type="button"
-                variant="ghost"
-                size="sm"
-                className="absolute right-1 top-1 h-6 w-6 p-0"
-                onClick={() => toggleShowKey('openaiKey')}
-              >
-                {showKeys.openaiKey ? <EyeOff className="h-3 w-3" /> : <Eye className="h-3 w-3" />}
-              </Button>
+        {keyFields.map(({ key, id, label, placeholder }) => (
+          <div key={key} className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label htmlFor={id} className="flex items-center gap-2">
+                {label}
+                {keyStatus[key] ? (
+                  <CheckCircle className="h-3 w-3 text-green-500" />
+                ) : (
+                  <AlertCircle className="h-3 w-3 text-orange-500" />
+                )}
+              </Label>
+              <Badge variant={keyStatus[key] ? "default" : "secondary"}>
+                {keyStatus[key] ? "Set" : "Missing"}
+              </Badge>
             </div>
-            <Button
-              size="sm"
-              variant="outline"
-              onClick={() => testApiKey('openaiKey')}
-              disabled={!apiKeys.openaiKey}
-            >
-              Test
-            </Button>
-          </div>
-        </div>
-
-        {/* ElevenLabs API Key */}
-        <div className="space-y-2">
-          <div className="flex items-center justify-between">
-            <Label htmlFor="elevenlabs-key" className="flex items-center gap-2">
-              ElevenLabs API Key
-              {keyStatus.elevenlabsKey ? (
-                <CheckCircle className="h-3 w-3 text-green-500" />
-              ) : (
-                <AlertCircle className="h-3 w-3 text-orange-500" />
-              )}
-            </Label>
-            <Badge variant={keyStatus.elevenlabsKey ? "default" : "secondary"}>
-              {keyStatus.elevenlabsKey ? "Set" : "Missing"}
-            </Badge>
-          </div>
-          
-          <div className="flex gap-2">
-            <div className="relative flex-1">
-              <Input
-                id="elevenlabs-key"
-                type={showKeys.elevenlabsKey ? "text" : "password"}
-                placeholder="Enter ElevenLabs API key..."
-                value={apiKeys.elevenlabsKey}
-                onChange={(e) => handleKeyChange('elevenlabsKey', e.target.value)}
-              />
+            
+            <div className="flex gap-2">
+              <div className="relative flex-1">
+                <Input
+                  id={id}
+                  type={showKeys[key] ? "text" : "password"}
+                  placeholder={placeholder}
+                  value={apiKeys[key]}
+                  onChange={(e) => handleKeyChange(key, e.target.value)}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="absolute right-1 top-1 h-6 w-6 p-0"
+                  onClick={() => toggleShowKey(key)}
+                >
+                  {showKeys[key] ? <EyeOff className="h-3 w-3" /> : <Eye className="h-3 w-3" />}
+                </Button>
+              </div>
               <Button
-                type="button"
-                variant="ghost"
                 size="sm"
-                className="absolute right-1 top-1 h-6 w-6 p-0"
-                onClick={() => toggleShowKey('elevenlabsKey')}
+                variant="outline"
+                onClick={() => testApiKey(key)}
+                disabled={!apiKeys[key]}
               >
-                {showKeys.elevenlabsKey ? <EyeOff className="h-3 w-3" /> : <Eye className="h-3 w-3" />}
+                Test
               </Button>
             </div>
-            <Button
-              size="sm"
-              variant="outline"
-              onClick={() => testApiKey('elevenlabsKey')}
-              disabled={!apiKeys.elevenlabsKey}
-            >
-              Test
-            </Button>
           </div>
-        </div>
+        ))}
       </div>
 
       {getInstructions()}
@@ -0,0 +1,115 @@
+import { useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { BookOpen, Check, Lightbulb, Pencil, X } from 'lucide-react';
+import { AnswerSource } from '@/lib/ai-services';
+import { DialogState } from '@/lib/dialog';
+import { LanguageCode } from '@/lib/languages';
+
+// A reply the agent would have given, waiting for the person on the call to use or drop it
+export interface Suggestion {
+  id: string;
+  // The customer turn it answers
+  customerMessage: string;
+  text: string;
+  // True until the reply has been generated
+  isPending: boolean;
+  language: LanguageCode;
+  sources?: AnswerSource[];
+  // Where the dialog goes if the suggestion is used, e.g. a flow waiting on the order number it asks for
+  dialog: DialogState;
+}
+
+interface AssistSuggestionsProps {
+  suggestions: Suggestion[];
+  onAccept: (suggestion: Suggestion, text: string) => void;
+  onDiscard: (suggestion: Suggestion) => void;
+}
+
+// What the answer was based on: the matched intent, or the document passages with their text
+const SourceList = ({ sources }: { sources: AnswerSource[] }) => (
+  <div className="space-y-2">
+    {sources.map((source) => source.kind === 'intent' ? (
+      <Badge key={source.intentId} variant="outline" className="gap-1 font-normal">
+        <BookOpen className="h-3 w-3" />
+        {source.label}
+        <span className="opacity-70">· {Math.round(source.confidence * 100)}%</span>
+      </Badge>
+    ) : (
+      <div key={source.chunkId} className="rounded-md border border-border p-2 text-xs">
+        <div className="flex justify-between gap-2 text-muted-foreground">
+          <span className="font-medium text-foreground">{source.documentName}, passage {source.chunkIndex + 1}</span>
+          <span>{Math.round(source.confidence * 100)}%</span>
+        </div>
+        <p className="mt-1 whitespace-pre-line line-clamp-3 text-muted-foreground">{source.excerpt}</p>
+      </div>
+    ))}
+  </div>
+);
+
+const SuggestionCard = ({ suggestion, onAccept, onDiscard }: { suggestion: Suggestion } & Omit<AssistSuggestionsProps, 'suggestions'>) => {
+  // Edited text, while the editor is open
+  const [draft, setDraft] = useState<string | null>(null);
+
+  return (
+    <Card className="p-4 shadow-card space-y-3">
+      <p className="text-xs text-muted-foreground">Customer: "{suggestion.customerMessage}"</p>
+
+      {suggestion.isPending ? (
+        <p className="text-sm text-muted-foreground animate-pulse">Finding a reply...</p>
+      ) : draft !== null ? (
+        <Textarea value={draft} onChange={(e) => setDraft(e.target.value)} rows={3} autoFocus />
+      ) : (
+        <p className="text-sm">{suggestion.text}</p>
+      )}
+
+      {suggestion.sources && suggestion.sources.length > 0 && <SourceList sources={suggestion.sources} />}
+
+      <div className="flex justify-end gap-2">
+        <Button size="sm" variant="ghost" onClick={() => onDiscard(suggestion)}>
+          <X className="h-4 w-4 mr-1" />
+          Discard
+        </Button>
+        {draft === null ? (
+          <>
+            <Button size="sm" variant="outline" onClick={() => setDraft(suggestion.text)} disabled={suggestion.isPending}>
+              <Pencil className="h-4 w-4 mr-1" />
+              Edit
+            </Button>
+            <Button size="sm" onClick={() => onAccept(suggestion, suggestion.text)} disabled={suggestion.isPending || !suggestion.text}>
+              <Check className="h-4 w-4 mr-1" />
+              Accept
+            </Button>
+          </>
+        ) : (
+          <Button size="sm" onClick={() => onAccept(suggestion, draft.trim())} disabled={!draft.trim()}>
+            <Check className="h-4 w-4 mr-1" />
+            Use Edited
+          </Button>
+        )}
+      </div>
+    </Card>
+  );
+};
+
+// Replies suggested in assist mode, newest first; accepting one logs it as said by the person on the call
+export const AssistSuggestions = ({ suggestions, onAccept, onDiscard }: AssistSuggestionsProps) => (
+  <div className="space-y-3">
+    <div className="flex items-center gap-2">
+      <Lightbulb className="h-4 w-4" />
+      <h4 className="font-medium">Suggested Replies</h4>
+      <Badge variant="secondary">Assist</Badge>
+    </div>
+    {suggestions.length === 0 ? (
+      <Card className="p-4 text-sm text-muted-foreground">
+        Suggestions show up here as the customer speaks. Accept one after you've said it, edit it first, or discard it.
+      </Card>
+    ) : (
+      suggestions.map((suggestion) => (
+        <SuggestionCard key={suggestion.id} suggestion={suggestion} onAccept={onAccept} onDiscard={onDiscard} />
+      ))
+    )}
+  </div>
+);
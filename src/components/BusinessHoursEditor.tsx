@@ -0,0 +1,308 @@
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Calendar } from '@/components/ui/calendar';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Clock, RotateCcw, Trash2 } from 'lucide-react';
+import {
+  BusinessHours,
+  COMMON_TIMEZONES,
+  commonHolidays,
+  DayHours,
+  describeOpeningStatus,
+  findException,
+  getBusinessHours,
+  getOpeningStatus,
+  HoursException,
+  resetBusinessHours,
+  saveBusinessHours,
+  Weekday,
+} from '@/lib/business-hours';
+
+// Monday first, as the schedule is read out
+const WEEKDAYS: Array<{ day: Weekday; name: string }> = [
+  { day: 1, name: 'Monday' },
+  { day: 2, name: 'Tuesday' },
+  { day: 3, name: 'Wednesday' },
+  { day: 4, name: 'Thursday' },
+  { day: 5, name: 'Friday' },
+  { day: 6, name: 'Saturday' },
+  { day: 0, name: 'Sunday' },
+];
+
+const DEFAULT_DAY_HOURS: DayHours = { open: '09:00', close: '17:00' };
+
+const toDate = (date: string) => parseISO(date);
+const toDateString = (date: Date) => format(date, 'yyyy-MM-dd');
+
+// Times are "HH:MM", so they compare as strings
+const closesBeforeOpening = (dayHours: DayHours) => dayHours.close <= dayHours.open;
+
+const PAST_MIDNIGHT_HINT = "Closing has to be after opening; hours past midnight aren't supported, so this counts as closed.";
+
+// Weekly schedule, timezone, holiday calendar and greetings behind the agent's live opening-hours answers
+export const BusinessHoursEditor = () => {
+  const [hours, setHours] = useState<BusinessHours>(() => getBusinessHours());
+  const [selectedDate, setSelectedDate] = useState<string | undefined>();
+  // The exception being edited for the selected date, saved with the button below the calendar
+  const [draft, setDraft] = useState<HoursException | null>(null);
+
+  const updateHours = (patch: Partial<BusinessHours>) => {
+    const next = { ...hours, ...patch };
+    setHours(next);
+    saveBusinessHours(next);
+  };
+
+  const updateDay = (day: Weekday, dayHours: DayHours | null) => {
+    updateHours({ weekly: { ...hours.weekly, [day]: dayHours } });
+  };
+
+  const selectDate = (date: Date | undefined) => {
+    const value = date && toDateString(date);
+    setSelectedDate(value);
+    setDraft(value ? findException(hours, value) ?? { date: value, name: '', hours: null } : null);
+  };
+
+  const saveException = () => {
+    if (!draft) return;
+    const others = hours.exceptions.filter(exception => exception.date !== draft.date);
+    updateHours({ exceptions: [...others, { ...draft, name: draft.name.trim() || 'Closed' }].sort((a, b) => a.date.localeCompare(b.date)) });
+  };
+
+  const removeException = (date: string) => {
+    updateHours({ exceptions: hours.exceptions.filter(exception => exception.date !== date) });
+    if (date === selectedDate) {
+      selectDate(undefined);
+    }
+  };
+
+  const restoreDefaults = () => {
+    if (!window.confirm('Replace the schedule, holidays and greetings with the defaults?')) return;
+    resetBusinessHours();
+    setHours(getBusinessHours());
+    selectDate(undefined);
+  };
+
+  // This year's and next year's usual holidays that are still ahead and not on the calendar yet
+  const today = toDateString(new Date());
+  const upcomingHolidays = [new Date().getFullYear(), new Date().getFullYear() + 1]
+    .flatMap(commonHolidays)
+    .filter(holiday => holiday.date >= today && !findException(hours, holiday.date));
+
+  const addUpcomingHolidays = () => {
+    updateHours({ exceptions: [...hours.exceptions, ...upcomingHolidays].sort((a, b) => a.date.localeCompare(b.date)) });
+  };
+
+  const isOpen = getOpeningStatus(hours).open;
+  const existingException = selectedDate ? findException(hours, selectedDate) : undefined;
+
+  return (
+    <Card className="p-6 shadow-card space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Clock className="h-5 w-5" />
+          <h3 className="text-lg font-semibold">Business Hours</h3>
+          <Badge variant={isOpen ? 'default' : 'secondary'}>{isOpen ? 'Open now' : 'Closed now'}</Badge>
+        </div>
+        <Button size="sm" variant="outline" onClick={restoreDefaults}>
+          <RotateCcw className="h-4 w-4 mr-1" />
+          Defaults
+        </Button>
+      </div>
+      <p className="text-sm text-muted-foreground">Right now the agent says: "{describeOpeningStatus(hours, 'en')}"</p>
+
+      <div className="grid gap-6 md:grid-cols-2">
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="hours-timezone">Timezone</Label>
+            <Select value={hours.timezone} onValueChange={(timezone) => updateHours({ timezone })}>
+              <SelectTrigger id="hours-timezone">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Array.from(new Set([hours.timezone, ...COMMON_TIMEZONES])).map((timezone) => (
+                  <SelectItem key={timezone} value={timezone}>
+                    {timezone.replace(/_/g, ' ')}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Weekly Schedule</Label>
+            {WEEKDAYS.map(({ day, name }) => {
+              const dayHours = hours.weekly[day];
+              return (
+                <div key={day} className="space-y-1">
+                  <div className="flex items-center gap-3">
+                    <Switch
+                      checked={!!dayHours}
+                      onCheckedChange={(open) => updateDay(day, open ? DEFAULT_DAY_HOURS : null)}
+                      aria-label={`Open on ${name}`}
+                    />
+                    <span className="w-24 text-sm">{name}</span>
+                    {dayHours ? (
+                      <>
+                        <Input
+                          type="time"
+                          className="h-8 w-28"
+                          value={dayHours.open}
+                          onChange={(e) => updateDay(day, { ...dayHours, open: e.target.value })}
+                          aria-label={`${name} opening time`}
+                        />
+                        <span className="text-sm text-muted-foreground">to</span>
+                        <Input
+                          type="time"
+                          className="h-8 w-28"
+                          value={dayHours.close}
+                          onChange={(e) => updateDay(day, { ...dayHours, close: e.target.value })}
+                          aria-label={`${name} closing time`}
+                        />
+                      </>
+                    ) : (
+                      <span className="text-sm text-muted-foreground">Closed</span>
+                    )}
+                  </div>
+                  {dayHours && closesBeforeOpening(dayHours) && (
+                    <p className="text-xs text-destructive">{PAST_MIDNIGHT_HINT}</p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="hours-greeting">Greeting</Label>
+            <Textarea
+              id="hours-greeting"
+              rows={2}
+              value={hours.greeting}
+              onChange={(e) => updateHours({ greeting: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="hours-after-hours-greeting">After-Hours Greeting</Label>
+            <Textarea
+              id="hours-after-hours-greeting"
+              rows={2}
+              placeholder="Same as the greeting"
+              value={hours.afterHoursGreeting}
+              onChange={(e) => updateHours({ afterHoursGreeting: e.target.value })}
+            />
+            <p className="text-xs text-muted-foreground">
+              Used while closed. {'{openingStatus}'} becomes something like "We're closed right now; we reopen Monday at 9 AM."
+            </p>
+          </div>
+        </div>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Holidays and Exceptions</Label>
+            <Calendar
+              mode="single"
+              selected={selectedDate ? toDate(selectedDate) : undefined}
+              onSelect={selectDate}
+              modifiers={{
+                holiday: hours.exceptions.filter(exception => !exception.hours).map(exception => toDate(exception.date)),
+                special: hours.exceptions.filter(exception => exception.hours).map(exception => toDate(exception.date)),
+              }}
+              modifiersClassNames={{
+                holiday: 'bg-destructive/15 text-destructive',
+                special: 'bg-accent text-accent-foreground',
+              }}
+              className="rounded-md border border-border w-fit"
+            />
+            <p className="text-xs text-muted-foreground">Pick a date to close it or give it special hours.</p>
+            {upcomingHolidays.length > 0 && (
+              <Button size="sm" variant="outline" onClick={addUpcomingHolidays}>
+                Add Upcoming Holidays ({upcomingHolidays.map(holiday => holiday.name).slice(0, 2).join(', ')}{upcomingHolidays.length > 2 ? '...' : ''})
+              </Button>
+            )}
+          </div>
+
+          {draft && (
+            <div className="space-y-3 rounded-md border border-border p-3">
+              <div className="text-sm font-medium">{format(toDate(draft.date), 'EEEE, MMMM d, yyyy')}</div>
+              <Input
+                placeholder="Name, e.g. Thanksgiving"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                aria-label="Exception name"
+              />
+              <div className="flex items-center gap-3">
+                <Switch
+                  checked={!!draft.hours}
+                  onCheckedChange={(open) => setDraft({ ...draft, hours: open ? DEFAULT_DAY_HOURS : null })}
+                  aria-label="Open with special hours"
+                />
+                {draft.hours ? (
+                  <>
+                    <Input
+                      type="time"
+                      className="h-8 w-28"
+                      value={draft.hours.open}
+                      onChange={(e) => setDraft({ ...draft, hours: { ...draft.hours!, open: e.target.value } })}
+                      aria-label="Special opening time"
+                    />
+                    <span className="text-sm text-muted-foreground">to</span>
+                    <Input
+                      type="time"
+                      className="h-8 w-28"
+                      value={draft.hours.close}
+                      onChange={(e) => setDraft({ ...draft, hours: { ...draft.hours!, close: e.target.value } })}
+                      aria-label="Special closing time"
+                    />
+                  </>
+                ) : (
+                  <span className="text-sm text-muted-foreground">Closed all day</span>
+                )}
+              </div>
+              {draft.hours && closesBeforeOpening(draft.hours) && (
+                <p className="text-xs text-destructive">{PAST_MIDNIGHT_HINT}</p>
+              )}
+              <div className="flex justify-end gap-2">
+                {existingException && (
+                  <Button size="sm" variant="outline" onClick={() => removeException(draft.date)}>
+                    Back to Weekly Hours
+                  </Button>
+                )}
+                <Button size="sm" onClick={saveException}>
+                  {existingException ? 'Save Changes' : 'Add Exception'}
+                </Button>
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-1">
+            {hours.exceptions.map((exception) => (
+              <div key={exception.date} className="flex items-center justify-between gap-2 text-sm">
+                <button className="text-left hover:underline" onClick={() => selectDate(toDate(exception.date))}>
+                  <span className="text-muted-foreground">{format(toDate(exception.date), 'MMM d, yyyy')}</span> {exception.name}
+                </button>
+                <div className="flex items-center gap-2">
+                  <Badge variant="outline">{exception.hours ? `${exception.hours.open}–${exception.hours.close}` : 'Closed'}</Badge>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0"
+                    onClick={() => removeException(exception.date)}
+                    aria-label={`Remove ${exception.name}`}
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </Card>
+  );
+};
@@ -1,19 +1,47 @@
 import { useState, useRef, useEffect } from 'react';
+import { Link } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Mic, MicOff, Phone, PhoneOff, Settings } from 'lucide-react';
+import { Progress } from '@/components/ui/progress';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { BookOpen, Headset, Languages, Mic, MicOff, Pause, Phone, PhoneOff, Play, Settings, Square } from 'lucide-react';
 import { AudioWaveform } from './AudioWaveform';
 import { TranscriptPanel } from './TranscriptPanel';
 import { ApiKeyManager } from './ApiKeyManager';
-import { AIServices, getApiKeys, recordAudio } from '@/lib/ai-services';
+import { AgentSettingsPanel } from './AgentSettingsPanel';
+import { DemoInputPanel } from './DemoInputPanel';
+import { AssistSuggestions, Suggestion } from './AssistSuggestions';
+import { AIServices, AnswerSource, ChatMessage, getApiKeys } from '@/lib/ai-services';
+import { SentenceSplitter, SpeechQueue } from '@/lib/speech-pipeline';
+import { audioPlayer, PlaybackEvent, PlaybackState } from '@/lib/audio-player';
+import { getAgentSettings, saveAgentSettings } from '@/lib/settings';
+import { createWebSpeechRecognizer, WebSpeechRecognizer } from '@/lib/web-speech';
+import { createVoiceActivityDetector, VoiceActivityDetector } from '@/lib/voice-activity';
+import { DEFAULT_LANGUAGE, LanguageCode, normalizeLanguage, SUPPORTED_LANGUAGES } from '@/lib/languages';
+import { DialogState } from '@/lib/dialog';
+import { ToolInvocation } from '@/lib/tools';
+import { callGreeting } from '@/lib/business-hours';
+import { ReturnAuthorization } from '@/lib/returns';
+import { buildHandoffSummary, EscalationReason, EscalationSignals, HandoffSummary, NO_ESCALATION_SIGNALS } from '@/lib/escalation';
+import { LiveCall, notifyOperators, OperatorEvent, postCallUpdate, postOperatorEvent, resolveEscalatedCall, subscribeToOperatorEvents } from '@/lib/operator-channel';
 import { useToast } from '@/hooks/use-toast';
 
 export interface Message {
   id: string;
   text: string;
-  speaker: 'agent' | 'customer';
+  // System messages log what the agent did behind the scenes, like tool calls; they are never spoken
+  speaker: 'agent' | 'customer' | 'system';
   timestamp: Date;
+  // True while the agent's reply is still being streamed in
+  isStreaming?: boolean;
+  language?: LanguageCode;
+  // What an agent answer was based on, when it came from an intent or the documents
+  sources?: AnswerSource[];
+  toolInvocation?: ToolInvocation;
+  // Typed by an operator who took the call over, rather than generated
+  fromOperator?: boolean;
 }
 
 export interface CallSession {
@@ -21,9 +49,32 @@ export interface CallSession {
   messages: Message[];
   startTime: Date;
   endTime?: Date;
-  status: 'idle' | 'connecting' | 'active' | 'ended';
+  // 'escalated' calls are waiting for a person and 'operator' calls have one; either way the agent keeps transcribing but doesn't answer
+  status: 'idle' | 'connecting' | 'active' | 'escalated' | 'operator' | 'ended';
+  // Returns the agent authorized during the call
+  returns?: ReturnAuthorization[];
+  // What the operator was told when the call was escalated
+  handoff?: HandoffSummary;
 }
 
+// Older suggestions drop off once there are this many
+const MAX_SUGGESTIONS = 3;
+
+const isInProgress = (session: CallSession | null) =>
+  session?.status === 'active' || session?.status === 'escalated' || session?.status === 'operator';
+
+// The call as operator consoles see it
+const toLiveCall = (session: CallSession, language: LanguageCode): LiveCall => ({
+  sessionId: session.id,
+  status: session.status as LiveCall['status'],
+  language,
+  startTime: session.startTime.toISOString(),
+  endTime: session.endTime?.toISOString(),
+  messages: session.messages.map(message => ({ ...message, timestamp: message.timestamp.toISOString() })),
+  returns: session.returns,
+  handoff: session.handoff,
+});
+
 export const CallInterface = () => {
   const [callSession, setCallSession] = useState<CallSession | null>(null);
   const [isRecording, setIsRecording] = useState(false);
@@ -32,56 +83,115 @@ export const CallInterface = () => {
   const [isProcessing, setIsProcessing] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
   const [aiServices, setAiServices] = useState<AIServices | null>(null);
-  const [conversationHistory, setConversationHistory] = useState<Array<{role: string, content: string}>>([]);
+  const [playbackState, setPlaybackState] = useState<PlaybackState>('idle');
+  const [playbackProgress, setPlaybackProgress] = useState<PlaybackEvent | null>(null);
+  const [interimTranscript, setInterimTranscript] = useState('');
+  // Set by voice activity detection while the caller is mid-utterance
+  const [isCustomerSpeaking, setIsCustomerSpeaking] = useState(false);
+  const [callLanguage, setCallLanguage] = useState<LanguageCode>(DEFAULT_LANGUAGE);
+  const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
   
   const audioContextRef = useRef<AudioContext | null>(null);
   const analyserRef = useRef<AnalyserNode | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
-  const recordingIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  const voiceDetectorRef = useRef<VoiceActivityDetector | null>(null);
+  const recognizerRef = useRef<WebSpeechRecognizer | null>(null);
+  // Kept in a ref so the recording interval always sees the latest turns
+  const conversationHistoryRef = useRef<ChatMessage[]>([]);
+  const speechQueueRef = useRef<SpeechQueue | null>(null);
+  const callLanguageRef = useRef<LanguageCode>(DEFAULT_LANGUAGE);
+  // Carries a pending clarifying question over to the customer's next turn
+  const dialogStateRef = useRef<DialogState>(null);
+  const escalationSignalsRef = useRef<EscalationSignals>(NO_ESCALATION_SIGNALS);
+  // Set while the call is with a person, escalated or taken over, so the agent stops answering
+  const agentPausedRef = useRef(false);
+  const operatorEventHandlerRef = useRef<((event: OperatorEvent) => void) | null>(null);
+  // The latest session, for operator events that arrive outside of React's render cycle
+  const callSessionRef = useRef<CallSession | null>(null);
   const { toast } = useToast();
 
   useEffect(() => {
     updateAIServices();
   }, []);
 
+  // Queue the call for an operator as soon as it's escalated
+  useEffect(() => {
+    if (callSession?.status === 'escalated' && callSession.handoff) {
+      notifyOperators({ sessionId: callSession.id, summary: callSession.handoff });
+    }
+  }, [callSession?.id, callSession?.status, callSession?.handoff]);
+
+  // Keep operator consoles in step with the call
+  useEffect(() => {
+    callSessionRef.current = callSession;
+    if (callSession && callSession.status !== 'idle' && callSession.status !== 'connecting') {
+      postCallUpdate(toLiveCall(callSession, callLanguage));
+    }
+  }, [callSession, callLanguage]);
+
+  // Subscribed once; the handler ref always points at this render's handler
+  useEffect(() => {
+    return subscribeToOperatorEvents(event => operatorEventHandlerRef.current?.(event));
+  }, []);
+
+  useEffect(() => {
+    return audioPlayer.subscribe((event) => {
+      setPlaybackState(audioPlayer.getState());
+      setPlaybackProgress(event.type === 'end' || event.type === 'stop' ? null : event);
+    });
+  }, []);
+
   const updateAIServices = () => {
-    const keys = getApiKeys();
-    if (keys.openaiKey && keys.elevenlabsKey) {
-      setAiServices(new AIServices(keys));
+    const services = new AIServices(getApiKeys());
+    if (services.isConfigured()) {
+      setAiServices(services);
     } else {
       setAiServices(null);
     }
   };
 
+  const openMicrophone = () => navigator.mediaDevices.getUserMedia({ 
+    audio: { 
+      echoCancellation: true,
+      noiseSuppression: true,
+      sampleRate: 16000
+    } 
+  });
+
   const startCall = async () => {
+    const isDemoMode = !!aiServices?.isDemoMode;
+    // In assist mode the person on the call does the greeting
+    const isAssistMode = !!aiServices?.isAssistMode;
+
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({ 
-        audio: { 
-          echoCancellation: true,
-          noiseSuppression: true,
-          sampleRate: 16000
-        } 
+      // Demo mode takes typed customer lines, so it runs even without a microphone
+      const stream = await openMicrophone().catch((error) => {
+        if (isDemoMode) return null;
+        throw error;
       });
       
-      streamRef.current = stream;
-      
-      // Set up audio analysis
-      const audioContext = new AudioContext();
-      const analyser = audioContext.createAnalyser();
-      const source = audioContext.createMediaStreamSource(stream);
-      
-      analyser.fftSize = 256;
-      source.connect(analyser);
-      
-      audioContextRef.current = audioContext;
-      analyserRef.current = analyser;
+      if (stream) {
+        streamRef.current = stream;
+        
+        // Set up audio analysis
+        const audioContext = new AudioContext();
+        const analyser = audioContext.createAnalyser();
+        const source = audioContext.createMediaStreamSource(stream);
+        
+        analyser.fftSize = 256;
+        source.connect(analyser);
+        
+        audioContextRef.current = audioContext;
+        analyserRef.current = analyser;
+      }
       
-      // Create new call session
+      // Create new call session, greeting with the after-hours message while closed
+      const greeting = callGreeting();
       const newSession: CallSession = {
         id: Date.now().toString(),
-        messages: [{
+        messages: isAssistMode ? [] : [{
           id: '1',
-          text: "Hello! Thank you for calling our customer service. How can I help you today?",
+          text: greeting,
           speaker: 'agent',
           timestamp: new Date()
         }],
@@ -90,6 +200,13 @@ export const CallInterface = () => {
       };
       
       setCallSession(newSession);
+      callLanguageRef.current = DEFAULT_LANGUAGE;
+      setCallLanguage(DEFAULT_LANGUAGE);
+      dialogStateRef.current = null;
+      escalationSignalsRef.current = NO_ESCALATION_SIGNALS;
+      agentPausedRef.current = false;
+      conversationHistoryRef.current = isAssistMode ? [] : [{ role: 'assistant', content: greeting }];
+      setSuggestions([]);
       setIsRecording(true);
       
       // Start audio level monitoring
@@ -99,7 +216,7 @@ export const CallInterface = () => {
       if (!aiServices) {
         toast({
           title: 'API Keys Required',
-          description: 'Please configure your OpenAI and ElevenLabs API keys in settings',
+          description: 'Please configure your speech-to-text and text-to-speech providers in settings',
           variant: 'destructive'
         });
         setShowSettings(true);
@@ -107,15 +224,23 @@ export const CallInterface = () => {
       }
 
       // Play welcome message
-      try {
-        const audioBuffer = await aiServices.textToSpeech("Hello! Thank you for calling our customer service. How can I help you today?");
-        await aiServices.playAudio(audioBuffer);
-      } catch (error) {
-        console.error('Error playing welcome message:', error);
+      if (!isAssistMode) {
+        try {
+          const speech = await aiServices.textToSpeech(greeting);
+          await aiServices.playAudio(speech);
+        } catch (error) {
+          console.error('Error playing welcome message:', error);
+        }
       }
 
-      // Start periodic recording for speech-to-text
-      startPeriodicRecording();
+      // Listen with the browser recognizer where configured and available, else record chunks for the STT provider
+      if (isDemoMode) {
+        // Customer lines come from the demo panel
+      } else if (aiServices.usesWebSpeech) {
+        startWebSpeechRecognition();
+      } else {
+        await startVoiceActivityDetection();
+      }
       
     } catch (error) {
       console.error('Error starting call:', error);
@@ -128,10 +253,17 @@ export const CallInterface = () => {
   };
 
   const endCall = () => {
-    if (recordingIntervalRef.current) {
-      clearInterval(recordingIntervalRef.current);
-      recordingIntervalRef.current = null;
+    if (voiceDetectorRef.current) {
+      voiceDetectorRef.current.close();
+      voiceDetectorRef.current = null;
     }
+    setIsCustomerSpeaking(false);
+
+    if (recognizerRef.current) {
+      recognizerRef.current.stop();
+      recognizerRef.current = null;
+    }
+    setInterimTranscript('');
     
     if (streamRef.current) {
       streamRef.current.getTracks().forEach(track => track.stop());
@@ -140,6 +272,9 @@ export const CallInterface = () => {
     if (audioContextRef.current) {
       audioContextRef.current.close();
     }
+
+    stopSpeaking();
+    audioPlayer.dispose();
     
     if (callSession) {
       const endedSession = {
@@ -157,75 +292,162 @@ export const CallInterface = () => {
     }
     
     setIsRecording(false);
-    setConversationHistory([]);
+    conversationHistoryRef.current = [];
   };
 
-  const startPeriodicRecording = () => {
-    if (!streamRef.current || !aiServices) return;
+  // Send the caller's speech to the STT provider one whole utterance at a time, as voice activity detection finds them
+  const startVoiceActivityDetection = async () => {
+    const stream = streamRef.current;
+    const audioContext = audioContextRef.current;
+    if (!stream || !audioContext || !aiServices) return;
 
-    recordingIntervalRef.current = setInterval(async () => {
-      try {
-        if (!streamRef.current || !aiServices) return;
-        
-        // Check if we're already processing to avoid overlapping
-        if (isProcessing) return;
-        
+    const detector = await createVoiceActivityDetector({
+      stream,
+      audioContext,
+      trailingSilenceMs: aiServices.trailingSilenceMs,
+      onSpeechStart: () => setIsCustomerSpeaking(true),
+      onSpeechEnd: () => setIsCustomerSpeaking(false),
+      onUtterance: async (audio) => {
+        // Stop listening while the agent answers so it doesn't transcribe its own voice
+        detector.stop();
         setIsProcessing(true);
-        
-        // Record 2 seconds of audio for faster response
-        const audioBlob = await recordAudio(streamRef.current, 2000);
-        
-        // Skip if audio is too small (likely silence)
-        if (audioBlob.size < 800) {
+
+        try {
+          const transcription = await aiServices.speechToText(audio);
+          if (transcription.text && transcription.text.trim().length >= 3) {
+            await processCustomerMessage(transcription.text.trim(), transcription.language);
+          } else {
+            setIsProcessing(false);
+          }
+        } catch (error) {
+          console.error('Error processing audio:', error);
           setIsProcessing(false);
-          return;
         }
-        
-        // Convert to text
-        const transcript = await aiServices.speechToText(audioBlob);
-        
-        // Skip if transcript is too short or empty
-        if (!transcript || transcript.trim().length < 3) {
-          setIsProcessing(false);
-          return;
+
+        if (voiceDetectorRef.current === detector) {
+          detector.start();
         }
-        
-        // Process customer message
-        await processCustomerMessage(transcript);
-        
-      } catch (error) {
-        console.error('Error processing audio:', error);
-        setIsProcessing(false);
-      }
-    }, 3000); // Record every 3 seconds for faster response
+      },
+    });
+
+    // The call may have ended while the audio worklet was loading
+    if (audioContext.state === 'closed') {
+      detector.close();
+      return;
+    }
+    voiceDetectorRef.current = detector;
+    detector.start();
+  };
+
+  const startWebSpeechRecognition = () => {
+    if (!aiServices) return;
+
+    // The browser recognizer can't detect languages, so the configured (or browser) language is the caller's
+    const language = aiServices.speechToTextLanguage || navigator.language;
+    const recognizer = createWebSpeechRecognizer({
+      language,
+      onInterim: setInterimTranscript,
+      onFinal: async (transcript) => {
+        setInterimTranscript('');
+        if (transcript.length < 3) return;
+
+        // Stop listening while the agent answers so it doesn't transcribe its own voice
+        recognizer.stop();
+        setIsProcessing(true);
+        await processCustomerMessage(transcript, normalizeLanguage(language));
+
+        if (recognizerRef.current === recognizer) {
+          recognizer.start();
+        }
+      },
+      onError: (error) => {
+        console.error('Error with speech recognition:', error);
+        toast({
+          title: 'Speech Recognition Error',
+          description: `${error.message}. Check microphone permissions and your connection.`,
+          variant: 'destructive'
+        });
+      },
+    });
+
+    recognizerRef.current = recognizer;
+    recognizer.start();
   };
 
-  const processCustomerMessage = async (customerMessage: string) => {
+  const processCustomerMessage = async (customerMessage: string, detectedLanguage?: LanguageCode) => {
     if (!aiServices) return;
 
     try {
+      // Follow the caller into whichever language they're speaking
+      if (detectedLanguage && detectedLanguage !== callLanguageRef.current) {
+        callLanguageRef.current = detectedLanguage;
+        setCallLanguage(detectedLanguage);
+      }
+      const language = callLanguageRef.current;
+
       // Add customer message to history and UI
-      addMessage(customerMessage, 'customer');
+      addMessage(customerMessage, 'customer', { language });
+
+      // Once a person has the call, the agent only keeps the transcript going
+      if (agentPausedRef.current) {
+        conversationHistoryRef.current = [...conversationHistoryRef.current, { role: 'user', content: customerMessage }];
+        setIsProcessing(false);
+        return;
+      }
+
+      if (aiServices.isAssistMode) {
+        await suggestReply(customerMessage, language);
+        setIsProcessing(false);
+        return;
+      }
       
       // Update conversation history for AI context
-      const newHistory = [...conversationHistory, { role: 'user', content: customerMessage }];
-      
-      // Generate AI response
-      const aiResponse = await aiServices.generateResponse(customerMessage, conversationHistory);
+      const conversationHistory = conversationHistoryRef.current;
+      const newHistory: ChatMessage[] = [...conversationHistory, { role: 'user', content: customerMessage }];
       
-      // Add AI response to history and UI
-      addMessage(aiResponse, 'agent');
-      
-      // Update conversation history
-      const updatedHistory = [...newHistory, { role: 'assistant', content: aiResponse }];
-      setConversationHistory(updatedHistory);
+      // Stream the AI response into the transcript, speaking each sentence as soon as it is complete
+      const messageId = addMessage('', 'agent', { isStreaming: true, language });
+      const splitter = new SentenceSplitter();
+      const speechQueue = new SpeechQueue(aiServices, language);
+      speechQueueRef.current = speechQueue;
+      let aiResponse = '';
+      let escalation: { reason: EscalationReason; dialog: DialogState } | null = null;
 
-      // Convert AI response to speech and play
       try {
-        const audioBuffer = await aiServices.textToSpeech(aiResponse);
-        await aiServices.playAudio(audioBuffer);
+        for await (const delta of aiServices.generateResponseStream(customerMessage, conversationHistory, {
+          language,
+          dialog: dialogStateRef.current,
+          onSources: sources => updateMessage(messageId, { sources }),
+          onDialogChange: dialog => { dialogStateRef.current = dialog; },
+          onToolEvent: invocation => addToolEvent(invocation, messageId),
+          escalation: escalationSignalsRef.current,
+          onEscalationSignals: signals => { escalationSignalsRef.current = signals; },
+          // Keep the dialog as it was so the handoff can include details still being collected
+          onEscalate: reason => { escalation = { reason, dialog: dialogStateRef.current }; },
+        })) {
+          aiResponse += delta;
+          updateMessage(messageId, { text: aiResponse });
+          splitter.push(delta).forEach(sentence => speechQueue.enqueue(sentence));
+        }
+        splitter.flush().forEach(sentence => speechQueue.enqueue(sentence));
       } catch (error) {
-        console.error('Error with text-to-speech:', error);
+        speechQueue.cancel();
+        if (!aiResponse) {
+          removeMessage(messageId);
+        }
+        throw error;
+      } finally {
+        updateMessage(messageId, { text: aiResponse.trim(), isStreaming: false });
+      }
+      
+      // Update conversation history
+      conversationHistoryRef.current = [...newHistory, { role: 'assistant', content: aiResponse.trim() }];
+
+      // Wait for the queued speech to finish before listening again
+      await speechQueue.drain();
+
+      if (escalation) {
+        escalateCall(escalation.reason, language, escalation.dialog);
       }
 
       setIsProcessing(false);
@@ -241,6 +463,151 @@ export const CallInterface = () => {
     }
   };
 
+  // Assist mode: work out the reply the agent would give, but leave it to the person on the call to say it
+  const suggestReply = async (customerMessage: string, language: LanguageCode) => {
+    const conversationHistory = conversationHistoryRef.current;
+    conversationHistoryRef.current = [...conversationHistory, { role: 'user', content: customerMessage }];
+
+    const suggestion: Suggestion = {
+      id: crypto.randomUUID(),
+      customerMessage,
+      text: '',
+      isPending: true,
+      language,
+      dialog: dialogStateRef.current,
+    };
+    setSuggestions(prev => [suggestion, ...prev].slice(0, MAX_SUGGESTIONS));
+    const updateSuggestion = (patch: Partial<Suggestion>) =>
+      setSuggestions(prev => prev.map(existing => existing.id === suggestion.id ? { ...existing, ...patch } : existing));
+
+    try {
+      const text = await aiServices.generateResponse(customerMessage, conversationHistory, {
+        language,
+        dialog: dialogStateRef.current,
+        onSources: sources => updateSuggestion({ sources }),
+        // Only taken up if the suggestion is used, so a discarded question isn't waited on
+        onDialogChange: dialog => updateSuggestion({ dialog }),
+        onToolEvent: invocation => addToolEvent(invocation, ''),
+      });
+      updateSuggestion({ text, isPending: false });
+    } catch (error) {
+      setSuggestions(prev => prev.filter(existing => existing.id !== suggestion.id));
+      throw error;
+    }
+  };
+
+  // The person on the call said the suggestion, as it was or edited: it goes in the transcript and the dialog moves on
+  const acceptSuggestion = (suggestion: Suggestion, text: string) => {
+    addMessage(text, 'agent', { language: suggestion.language, sources: suggestion.sources });
+    conversationHistoryRef.current = [...conversationHistoryRef.current, { role: 'assistant', content: text }];
+    dialogStateRef.current = suggestion.dialog;
+    discardSuggestion(suggestion);
+  };
+
+  const discardSuggestion = (suggestion: Suggestion) => {
+    setSuggestions(prev => prev.filter(existing => existing.id !== suggestion.id));
+  };
+
+  // Hand the call to a person: the agent stops answering and operators get a summary of the call so far
+  const escalateCall = (reason: EscalationReason, language: LanguageCode, dialog: DialogState) => {
+    agentPausedRef.current = true;
+    setCallSession(prev => prev && prev.status === 'active' ? {
+      ...prev,
+      status: 'escalated',
+      handoff: buildHandoffSummary(prev.messages, reason, language, dialog),
+    } : prev);
+  };
+
+  // An operator took the call from the console: the agent goes quiet and their typed replies are spoken instead
+  const takeOver = () => {
+    agentPausedRef.current = true;
+    stopSpeaking();
+    addMessage('An operator joined the call', 'system');
+    setCallSession(prev => prev && { ...prev, status: 'operator' });
+  };
+
+  const speakOperatorReply = async (text: string) => {
+    const language = callLanguageRef.current;
+    addMessage(text, 'agent', { language, fromOperator: true });
+    conversationHistoryRef.current = [...conversationHistoryRef.current, { role: 'assistant', content: text }];
+    if (!aiServices) return;
+
+    try {
+      const speech = await aiServices.textToSpeech(text, language);
+      await aiServices.playAudio(speech);
+    } catch (error) {
+      console.error('Error speaking operator reply:', error);
+      toast({
+        title: 'Playback Error',
+        description: "The operator's reply couldn't be spoken. Check the text-to-speech settings.",
+        variant: 'destructive'
+      });
+    }
+  };
+
+  // The agent picks up where the operator left off, with a clean slate for escalation
+  const handBack = (session: CallSession) => {
+    agentPausedRef.current = false;
+    escalationSignalsRef.current = NO_ESCALATION_SIGNALS;
+    dialogStateRef.current = null;
+    addMessage('The operator handed the call back to the agent', 'system');
+    setCallSession(prev => prev && { ...prev, status: 'active' });
+    if (session.handoff) {
+      resolveEscalatedCall(session.id);
+    }
+  };
+
+  // Take-overs, typed replies and hand-backs from an operator console
+  operatorEventHandlerRef.current = (event: OperatorEvent) => {
+    const session = callSessionRef.current;
+    if (!session || !isInProgress(session)) return;
+    if (event.type === 'list-calls') {
+      postOperatorEvent({ type: 'call-updated', call: toLiveCall(session, callLanguageRef.current) });
+      return;
+    }
+    if (!('sessionId' in event) || event.sessionId !== session.id) return;
+
+    if (event.type === 'take-over' && session.status !== 'operator') {
+      takeOver();
+    } else if (event.type === 'operator-reply' && session.status === 'operator') {
+      speakOperatorReply(event.text);
+    } else if (event.type === 'hand-back' && session.status === 'operator') {
+      handBack(session);
+    }
+  };
+
+  // Cut the agent off: stop the current sentence and drop any still queued
+  const stopSpeaking = () => {
+    speechQueueRef.current?.cancel();
+    speechQueueRef.current = null;
+    audioPlayer.stop();
+  };
+
+  const togglePlayback = () => {
+    if (playbackState === 'paused') {
+      audioPlayer.resume();
+    } else {
+      audioPlayer.pause();
+    }
+  };
+
+  const sendDemoUtterance = async (text: string) => {
+    setIsProcessing(true);
+    await processCustomerMessage(text);
+  };
+
+  const toggleDemoMode = (enabled: boolean) => {
+    const settings = getAgentSettings();
+    saveAgentSettings({ ...settings, demo: { ...settings.demo, enabled } });
+    updateAIServices();
+  };
+
+  const toggleAssistMode = (enabled: boolean) => {
+    const settings = getAgentSettings();
+    saveAgentSettings({ ...settings, assist: { ...settings.assist, enabled } });
+    updateAIServices();
+  };
+
   const toggleMute = () => {
     if (streamRef.current) {
       streamRef.current.getAudioTracks().forEach(track => {
@@ -270,26 +637,65 @@ export const CallInterface = () => {
     updateLevel();
   };
 
-  const addMessage = (text: string, speaker: 'agent' | 'customer') => {
-    if (!callSession) return;
-    
+  const addMessage = (text: string, speaker: Message['speaker'], extra: Partial<Message> = {}) => {
     const newMessage: Message = {
-      id: Date.now().toString(),
+      id: crypto.randomUUID(),
       text,
       speaker,
-      timestamp: new Date()
+      timestamp: new Date(),
+      ...extra
     };
     
-    setCallSession({
-      ...callSession,
-      messages: [...callSession.messages, newMessage]
+    // Functional update so calls from long-lived callbacks don't work on a stale session
+    setCallSession(prev => prev && {
+      ...prev,
+      messages: [...prev.messages, newMessage]
+    });
+
+    return newMessage.id;
+  };
+
+  // Log a tool call in the transcript, just above the answer it feeds into
+  const addToolEvent = (invocation: ToolInvocation, beforeId: string) => {
+    const event: Message = {
+      id: invocation.id,
+      text: invocation.error ? `${invocation.name} failed: ${invocation.error}` : `Called ${invocation.name}`,
+      speaker: 'system',
+      timestamp: new Date(invocation.finishedAt),
+      toolInvocation: invocation,
+    };
+
+    setCallSession(prev => {
+      if (!prev) return prev;
+      const index = prev.messages.findIndex(message => message.id === beforeId);
+      const messages = [...prev.messages];
+      messages.splice(index === -1 ? messages.length : index, 0, event);
+      // Keep RMAs on the session so they can be read back or emailed after the call
+      const authorization = (invocation.result as { authorization?: ReturnAuthorization } | undefined)?.authorization;
+      return authorization ? { ...prev, messages, returns: [...(prev.returns ?? []), authorization] } : { ...prev, messages };
+    });
+  };
+
+  const updateMessage = (id: string, patch: Partial<Message>) => {
+    setCallSession(prev => prev && {
+      ...prev,
+      messages: prev.messages.map(message => message.id === id ? { ...message, ...patch } : message)
+    });
+  };
+
+  const removeMessage = (id: string) => {
+    setCallSession(prev => prev && {
+      ...prev,
+      messages: prev.messages.filter(message => message.id !== id)
     });
   };
 
   const getStatusColor = () => {
     switch (callSession?.status) {
       case 'active': return 'bg-call-active';
-      case 'connecting': return 'bg-call-muted';
+      case 'connecting':
+      case 'escalated': return 'bg-call-muted';
+      case 'operator': return 'bg-primary';
       case 'ended': return 'bg-call-inactive';
       default: return 'bg-muted';
     }
@@ -299,6 +705,8 @@ export const CallInterface = () => {
     switch (callSession?.status) {
       case 'active': return 'Call Active';
       case 'connecting': return 'Connecting...';
+      case 'escalated': return 'Waiting for an Operator';
+      case 'operator': return 'Operator on the Call';
       case 'ended': return 'Call Ended';
       default: return 'Ready';
     }
@@ -322,23 +730,60 @@ export const CallInterface = () => {
                     Session {callSession.id}
                   </Badge>
                 )}
+                {callSession && (
+                  <Badge variant="outline" className="flex items-center gap-1">
+                    <Languages className="h-3 w-3" />
+                    {SUPPORTED_LANGUAGES[callLanguage].name}
+                  </Badge>
+                )}
               </div>
               
-              <Button
-                variant="ghost"
-                size="icon"
-                onClick={() => {
-                  setShowSettings(!showSettings);
-                  updateAIServices();
-                }}
-              >
-                <Settings className="h-4 w-4" />
-              </Button>
+              <div className="flex items-center gap-4">
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="demo-mode"
+                    checked={!!aiServices?.isDemoMode}
+                    onCheckedChange={toggleDemoMode}
+                    disabled={isInProgress(callSession)}
+                  />
+                  <Label htmlFor="demo-mode" className="text-sm">Demo mode</Label>
+                </div>
+                <div className="flex items-center gap-2" title="Transcribe and suggest replies without the agent speaking">
+                  <Switch
+                    id="assist-mode"
+                    checked={!!aiServices?.isAssistMode}
+                    onCheckedChange={toggleAssistMode}
+                    disabled={isInProgress(callSession)}
+                  />
+                  <Label htmlFor="assist-mode" className="text-sm">Assist mode</Label>
+                </div>
+                <Button asChild variant="ghost" size="icon" title="Knowledge base">
+                  <Link to="/knowledge">
+                    <BookOpen className="h-4 w-4" />
+                  </Link>
+                </Button>
+                <Button asChild variant="ghost" size="icon" title="Operator view">
+                  <Link to="/operator" target="_blank">
+                    <Headset className="h-4 w-4" />
+                  </Link>
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => {
+                    setShowSettings(!showSettings);
+                    updateAIServices();
+                  }}
+                >
+                  <Settings className="h-4 w-4" />
+                </Button>
+              </div>
             </div>
             
             {showSettings && (
-              <div className="mt-4 pt-4 border-t border-border">
+              <div className="mt-4 pt-4 border-t border-border space-y-4">
                 <ApiKeyManager />
+                <AgentSettingsPanel />
               </div>
             )}
           </Card>
@@ -351,11 +796,38 @@ export const CallInterface = () => {
                 audioLevel={audioLevel}
               />
               
+              {isCustomerSpeaking && !isProcessing && (
+                <div className="text-sm text-muted-foreground">
+                  Customer speaking...
+                </div>
+              )}
+
               {isProcessing && (
                 <div className="text-sm text-muted-foreground animate-pulse">
                   Listening and processing...
                 </div>
               )}
+
+              {playbackState !== 'idle' && playbackProgress && (
+                <div className="flex items-center gap-3">
+                  <Button variant="ghost" size="icon" onClick={togglePlayback}>
+                    {playbackState === 'paused' ? <Play className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
+                  </Button>
+                  <div className="flex-1 space-y-1 text-left">
+                    <div className="flex justify-between gap-2 text-xs text-muted-foreground">
+                      <span className="truncate">Agent speaking: {playbackProgress.text}</span>
+                      <span>{playbackProgress.currentTime.toFixed(1)}s</span>
+                    </div>
+                    <Progress
+                      value={playbackProgress.duration ? (playbackProgress.currentTime / playbackProgress.duration) * 100 : undefined}
+                      className="h-1.5"
+                    />
+                  </div>
+                  <Button variant="ghost" size="icon" onClick={stopSpeaking}>
+                    <Square className="h-4 w-4" />
+                  </Button>
+                </div>
+              )}
             </div>
           </Card>
 
@@ -394,6 +866,14 @@ export const CallInterface = () => {
               )}
             </div>
           </Card>
+
+          {isInProgress(callSession) && aiServices?.isDemoMode && (
+            <DemoInputPanel onSend={sendDemoUtterance} disabled={isProcessing} />
+          )}
+
+          {isInProgress(callSession) && aiServices?.isAssistMode && (
+            <AssistSuggestions suggestions={suggestions} onAccept={acceptSuggestion} onDiscard={discardSuggestion} />
+          )}
         </div>
 
         {/* Transcript Panel */}
@@ -402,6 +882,7 @@ export const CallInterface = () => {
             session={callSession}
             onAddMessage={addMessage}
             isProcessing={isProcessing}
+            interimTranscript={interimTranscript}
             setIsProcessing={setIsProcessing}
           />
         </div>
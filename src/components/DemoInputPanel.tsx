@@ -0,0 +1,74 @@
+import { useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card } from '@/components/ui/card';
+import { FlaskConical, Send } from 'lucide-react';
+import { DEMO_SCRIPT } from '@/lib/demo-mode';
+
+interface DemoInputPanelProps {
+  onSend: (text: string) => void;
+  disabled: boolean;
+}
+
+// Stands in for the microphone in demo mode: type a customer line or replay a scripted one
+export const DemoInputPanel = ({ onSend, disabled }: DemoInputPanelProps) => {
+  const [text, setText] = useState('');
+  const [scriptIndex, setScriptIndex] = useState(0);
+
+  const send = (utterance: string) => {
+    if (!utterance.trim() || disabled) return;
+    onSend(utterance.trim());
+  };
+
+  const sendTyped = () => {
+    send(text);
+    setText('');
+  };
+
+  const sendNextScripted = () => {
+    send(DEMO_SCRIPT[scriptIndex]);
+    setScriptIndex((scriptIndex + 1) % DEMO_SCRIPT.length);
+  };
+
+  return (
+    <Card className="p-6 shadow-card space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <FlaskConical className="h-4 w-4" />
+          <h4 className="font-medium">Demo Customer</h4>
+        </div>
+        <Badge variant="secondary">Offline</Badge>
+      </div>
+
+      <form
+        className="flex gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          sendTyped();
+        }}
+      >
+        <Input
+          placeholder="Type what the customer says..."
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          disabled={disabled}
+        />
+        <Button type="submit" disabled={disabled || !text.trim()}>
+          <Send className="h-4 w-4" />
+        </Button>
+      </form>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Button size="sm" variant="outline" onClick={sendNextScripted} disabled={disabled}>
+          Play next scripted line ({scriptIndex + 1}/{DEMO_SCRIPT.length})
+        </Button>
+        {DEMO_SCRIPT.map((line) => (
+          <Button key={line} size="sm" variant="ghost" onClick={() => send(line)} disabled={disabled}>
+            “{line}”
+          </Button>
+        ))}
+      </div>
+    </Card>
+  );
+};
@@ -0,0 +1,150 @@
+import { useRef, useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { FileText, Loader2, Search, Trash2, Upload } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  addDocument,
+  getDocuments,
+  KnowledgeDocument,
+  removeDocument,
+  retrievePassages,
+  RetrievedPassage,
+  SUPPORTED_DOCUMENT_EXTENSIONS,
+} from '@/lib/documents';
+import { getApiKeys } from '@/lib/ai-services';
+import { getAgentSettings } from '@/lib/settings';
+
+// Upload policy documents the agent can quote from, and check what a question would retrieve
+export const DocumentLibrary = () => {
+  const [documents, setDocuments] = useState<KnowledgeDocument[]>(() => getDocuments());
+  const [isUploading, setIsUploading] = useState(false);
+  const [query, setQuery] = useState('');
+  const [passages, setPassages] = useState<RetrievedPassage[] | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const uploadFiles = async (files: File[]) => {
+    setIsUploading(true);
+    for (const file of files) {
+      try {
+        const document = await addDocument(file);
+        toast({ title: 'Document Added', description: `${document.name} was split into ${document.chunks.length} passages` });
+      } catch (error) {
+        console.error('Error adding document:', error);
+        toast({ title: 'Upload Failed', description: (error as Error).message, variant: 'destructive' });
+      }
+    }
+    setDocuments(getDocuments());
+    setIsUploading(false);
+  };
+
+  const deleteDocument = (document: KnowledgeDocument) => {
+    if (!window.confirm(`Remove ${document.name}?`)) return;
+    removeDocument(document.id);
+    setDocuments(getDocuments());
+    setPassages(null);
+  };
+
+  const searchPassages = async () => {
+    try {
+      setPassages(await retrievePassages(query, documents, { apiKeys: getApiKeys(), settings: getAgentSettings().matching }));
+    } catch (error) {
+      console.error('Error retrieving passages:', error);
+      toast({ title: 'Search Failed', description: (error as Error).message, variant: 'destructive' });
+    }
+  };
+
+  return (
+    <Card className="p-6 shadow-card space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <FileText className="h-5 w-5" />
+          <h3 className="text-lg font-semibold">Documents</h3>
+          <Badge variant="secondary">{documents.length} files</Badge>
+        </div>
+        <Button size="sm" onClick={() => fileInputRef.current?.click()} disabled={isUploading}>
+          {isUploading ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Upload className="h-4 w-4 mr-1" />}
+          Upload
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          accept={SUPPORTED_DOCUMENT_EXTENSIONS.join(',')}
+          className="hidden"
+          onChange={(e) => {
+            const files = Array.from(e.target.files ?? []);
+            if (files.length > 0) uploadFiles(files);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        Markdown, text, HTML and PDF files. When a question isn't covered by an intent, the most relevant passages are given to the language model.
+      </p>
+
+      {documents.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No documents uploaded yet.</p>
+      ) : (
+        <div className="divide-y divide-border rounded-md border border-border">
+          {documents.map((document) => (
+            <div key={document.id} className="flex items-center gap-2 p-2">
+              <div className="flex-1 min-w-0">
+                <div className="text-sm font-medium truncate">{document.name}</div>
+                <div className="text-xs text-muted-foreground">
+                  {document.chunks.length} passages · added {new Date(document.uploadedAt).toLocaleDateString()}
+                </div>
+              </div>
+              <Badge variant="outline" className="uppercase text-[10px]">{document.type}</Badge>
+              <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => deleteDocument(document)}>
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {documents.length > 0 && (
+        <div className="space-y-2">
+          <Label htmlFor="passage-query">Test Retrieval</Label>
+          <form
+            className="flex gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              searchPassages();
+            }}
+          >
+            <Input
+              id="passage-query"
+              placeholder="Can I return an opened item?"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+            />
+            <Button type="submit" variant="outline" disabled={!query.trim()}>
+              <Search className="h-4 w-4" />
+            </Button>
+          </form>
+          {passages && (passages.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No passage is relevant enough to be used.</p>
+          ) : (
+            passages.map((passage) => (
+              <div key={passage.chunk.id} className="rounded-md border border-border p-3 text-sm space-y-1">
+                <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                  <span className="font-medium text-foreground">{passage.document.name}</span>
+                  <span>passage {passage.chunk.index + 1}</span>
+                  <span>score {passage.score.toFixed(2)}</span>
+                </div>
+                <p className="whitespace-pre-line line-clamp-4">{passage.chunk.text}</p>
+              </div>
+            ))
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,218 @@
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Intent, intentSchema } from '@/lib/intents';
+import { LanguageCode, SUPPORTED_LANGUAGES } from '@/lib/languages';
+import { listDialogFlows } from '@/lib/dialog-flows';
+
+// Lists are edited as plain text: examples one per line, terms comma-separated
+const intentFormSchema = z.object({
+  id: intentSchema.shape.id,
+  label: intentSchema.shape.label,
+  examples: z.string(),
+  keywords: z.string(),
+  required: z.string(),
+  excluded: z.string(),
+  priority: z.coerce.number().int('Priority must be a whole number'),
+  response: intentSchema.shape.response,
+  flow: z.string(),
+});
+
+// Radix selects can't hold an empty value
+const NO_FLOW = 'none';
+
+type IntentFormValues = z.infer<typeof intentFormSchema>;
+
+const splitLines = (value: string) => value.split('\n').map(line => line.trim()).filter(Boolean);
+const splitTerms = (value: string) => value.split(',').map(term => term.trim().toLowerCase()).filter(Boolean);
+
+const toFormValues = (intent?: Intent): IntentFormValues => ({
+  id: intent?.id ?? '',
+  label: intent?.label ?? '',
+  examples: intent?.examples.join('\n') ?? '',
+  keywords: intent?.keywords.join(', ') ?? '',
+  required: intent?.required.join(', ') ?? '',
+  excluded: intent?.excluded.join(', ') ?? '',
+  priority: intent?.priority ?? 0,
+  response: { en: '', es: '', fr: '', de: '', ...intent?.response },
+  flow: intent?.flow ?? NO_FLOW,
+});
+
+const termFields: Array<{ name: 'keywords' | 'required' | 'excluded'; label: string; description: string }> = [
+  { name: 'keywords', label: 'Keywords', description: 'At least one must appear. Terms also match longer words ("hour" matches "hours").' },
+  { name: 'required', label: 'Required Terms', description: 'Every one of these must appear.' },
+  { name: 'excluded', label: 'Excluded Terms', description: 'The intent never fires when any of these appear.' },
+];
+
+interface IntentFormProps {
+  intent?: Intent;
+  // IDs already taken by other intents
+  existingIds: string[];
+  onSubmit: (intent: Intent) => void;
+  onCancel: () => void;
+}
+
+export const IntentForm = ({ intent, existingIds, onSubmit, onCancel }: IntentFormProps) => {
+  const form = useForm<IntentFormValues>({
+    resolver: zodResolver(
+      intentFormSchema.refine(values => !existingIds.includes(values.id), {
+        message: 'Another intent already uses this ID',
+        path: ['id'],
+      })
+    ),
+    defaultValues: toFormValues(intent),
+  });
+
+  const handleSubmit = (values: IntentFormValues) => {
+    onSubmit(intentSchema.parse({
+      ...values,
+      examples: splitLines(values.examples),
+      keywords: splitTerms(values.keywords),
+      required: splitTerms(values.required),
+      excluded: splitTerms(values.excluded),
+      flow: values.flow === NO_FLOW ? undefined : values.flow,
+    }));
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+        <div className="grid grid-cols-3 gap-3">
+          <FormField
+            control={form.control}
+            name="label"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Label</FormLabel>
+                <FormControl>
+                  <Input placeholder="Store locations" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="id"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>ID</FormLabel>
+                <FormControl>
+                  <Input placeholder="store-locations" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="priority"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Priority</FormLabel>
+                <FormControl>
+                  <Input type="number" step={1} {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="examples"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Example Phrases</FormLabel>
+              <FormControl>
+                <Textarea rows={3} placeholder={'Where are your stores?\nIs there a store near me?'} {...field} />
+              </FormControl>
+              <FormDescription>One per line. A caller saying exactly one of these always fires the intent.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {termFields.map(({ name, label, description }) => (
+          <FormField
+            key={name}
+            control={form.control}
+            name={name}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{label}</FormLabel>
+                <FormControl>
+                  <Input placeholder="Comma-separated" {...field} />
+                </FormControl>
+                <FormDescription>{description}</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        ))}
+
+        {(Object.keys(SUPPORTED_LANGUAGES) as LanguageCode[]).map((code) => (
+          <FormField
+            key={code}
+            control={form.control}
+            name={`response.${code}`}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Response ({SUPPORTED_LANGUAGES[code].name})</FormLabel>
+                <FormControl>
+                  <Textarea rows={2} placeholder={code === 'en' ? 'What the agent says' : 'Falls back to English'} {...field} />
+                </FormControl>
+                {code === 'en' && (
+                  <FormDescription>
+                    {'{openingStatus}'} and {'{weeklyHours}'} are filled in from the business hours, {'{returnWindowDays}'} from the return policy.
+                  </FormDescription>
+                )}
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        ))}
+
+        <FormField
+          control={form.control}
+          name="flow"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Follow-up Flow</FormLabel>
+              <Select value={field.value} onValueChange={field.onChange}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  <SelectItem value={NO_FLOW}>None, just give the response</SelectItem>
+                  {listDialogFlows().map((flow) => (
+                    <SelectItem key={flow.id} value={flow.id}>
+                      {flow.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormDescription>Collects details like an order number over the next few turns, after the response above.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="flex justify-end gap-2">
+          <Button type="button" variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button type="submit">{intent ? 'Save Changes' : 'Add Intent'}</Button>
+        </div>
+      </form>
+    </Form>
+  );
+};
@@ -0,0 +1,266 @@
+import { useRef, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ArrowDown, ArrowUp, BookOpen, Download, Pencil, Plus, RotateCcw, Trash2, Upload } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { getIntents, Intent, parseIntents, rankIntents, resetIntents, saveIntents } from '@/lib/intents';
+import { classifyIntent } from '@/lib/semantic-matcher';
+import { getApiKeys } from '@/lib/ai-services';
+import { getAgentSettings } from '@/lib/settings';
+import { getDialogFlow } from '@/lib/dialog-flows';
+import { IntentForm } from './IntentForm';
+
+// Table of FAQ intents with an add/edit form, reordering, JSON import/export and a phrase tester
+export const KnowledgeBaseEditor = () => {
+  const [intents, setIntents] = useState<Intent[]>(() => getIntents());
+  // null when the dialog is closed, undefined while adding a new intent
+  const [editing, setEditing] = useState<Intent | undefined | null>(null);
+  const [testPhrase, setTestPhrase] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const updateIntents = (next: Intent[]) => {
+    setIntents(next);
+    saveIntents(next);
+  };
+
+  const saveIntent = (intent: Intent) => {
+    if (editing) {
+      updateIntents(intents.map(existing => (existing.id === editing.id ? intent : existing)));
+    } else {
+      updateIntents([...intents, intent]);
+    }
+    setEditing(null);
+    toast({ title: 'Intent Saved', description: `"${intent.label}" is live for new calls` });
+  };
+
+  const deleteIntent = (intent: Intent) => {
+    if (!window.confirm(`Delete the "${intent.label}" intent?`)) return;
+    updateIntents(intents.filter(existing => existing.id !== intent.id));
+  };
+
+  // Order breaks ties between intents with the same priority
+  const moveIntent = (index: number, offset: number) => {
+    const next = [...intents];
+    const [moved] = next.splice(index, 1);
+    next.splice(index + offset, 0, moved);
+    updateIntents(next);
+  };
+
+  const restoreDefaults = () => {
+    if (!window.confirm('Replace all intents with the bundled defaults?')) return;
+    resetIntents();
+    setIntents(getIntents());
+  };
+
+  const exportIntents = () => {
+    const blob = new Blob([JSON.stringify(intents, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'intents.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const importIntents = async (file: File) => {
+    try {
+      updateIntents(parseIntents(await file.text()));
+      toast({ title: 'Intents Imported', description: `Loaded intents from ${file.name}` });
+    } catch (error) {
+      console.error('Error importing intents:', error);
+      toast({ title: 'Import Failed', description: 'The file is not a valid intents configuration', variant: 'destructive' });
+    }
+  };
+
+  const matches = testPhrase.trim() ? rankIntents(testPhrase, intents) : [];
+
+  const matching = getAgentSettings().matching;
+  const usesEmbeddings = matching.method === 'embeddings';
+  const { data: classifications, error: classificationError } = useQuery({
+    queryKey: ['intent-classification', testPhrase, intents, matching],
+    queryFn: () => classifyIntent(testPhrase, intents, { apiKeys: getApiKeys(), settings: matching }),
+    enabled: usesEmbeddings && !!testPhrase.trim(),
+  });
+
+  return (
+    <div className="space-y-6">
+      <Card className="p-6 shadow-card space-y-4">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <BookOpen className="h-5 w-5" />
+            <h3 className="text-lg font-semibold">Knowledge Base</h3>
+            <Badge variant="secondary">{intents.length} intents</Badge>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button size="sm" variant="outline" onClick={() => fileInputRef.current?.click()}>
+              <Upload className="h-4 w-4 mr-1" />
+              Import
+            </Button>
+            <Button size="sm" variant="outline" onClick={exportIntents}>
+              <Download className="h-4 w-4 mr-1" />
+              Export
+            </Button>
+            <Button size="sm" variant="outline" onClick={restoreDefaults}>
+              <RotateCcw className="h-4 w-4 mr-1" />
+              Defaults
+            </Button>
+            <Button size="sm" onClick={() => setEditing(undefined)}>
+              <Plus className="h-4 w-4 mr-1" />
+              New Intent
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) importIntents(file);
+                e.target.value = '';
+              }}
+            />
+          </div>
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Intent</TableHead>
+              <TableHead>Keywords</TableHead>
+              <TableHead className="w-20">Priority</TableHead>
+              <TableHead className="w-44 text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {intents.map((intent, index) => (
+              <TableRow key={intent.id}>
+                <TableCell>
+                  <div className="font-medium">{intent.label}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {intent.id}
+                    {intent.flow && <span> · then {getDialogFlow(intent.flow)?.label ?? `unknown flow "${intent.flow}"`}</span>}
+                  </div>
+                </TableCell>
+                <TableCell>
+                  <div className="flex flex-wrap gap-1">
+                    {intent.keywords.map((keyword) => (
+                      <Badge key={keyword} variant="outline" className="text-[10px] px-1.5 py-0">
+                        {keyword}
+                      </Badge>
+                    ))}
+                  </div>
+                </TableCell>
+                <TableCell>{intent.priority}</TableCell>
+                <TableCell>
+                  <div className="flex justify-end gap-1">
+                    <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => moveIntent(index, -1)} disabled={index === 0}>
+                      <ArrowUp className="h-3 w-3" />
+                    </Button>
+                    <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => moveIntent(index, 1)} disabled={index === intents.length - 1}>
+                      <ArrowDown className="h-3 w-3" />
+                    </Button>
+                    <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => setEditing(intent)}>
+                      <Pencil className="h-3 w-3" />
+                    </Button>
+                    <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => deleteIntent(intent)}>
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+            {intents.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={4} className="text-center text-muted-foreground">
+                  No intents yet. Every question will go to the language model.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </Card>
+
+      <Card className="p-6 shadow-card space-y-3">
+        <Label htmlFor="try-phrase">Try a Phrase</Label>
+        <Input
+          id="try-phrase"
+          placeholder="What would a caller say?"
+          value={testPhrase}
+          onChange={(e) => setTestPhrase(e.target.value)}
+        />
+        {testPhrase.trim() && usesEmbeddings && (
+          <div className="space-y-2">
+            <div className="text-xs font-medium text-muted-foreground">
+              Semantic match (threshold {matching.confidenceThreshold.toFixed(2)})
+            </div>
+            {classificationError ? (
+              <p className="text-sm text-destructive">Unable to score the phrase: {(classificationError as Error).message}</p>
+            ) : (
+              classifications?.slice(0, 3).map((classification, index) => {
+                const clears = classification.confidence >= matching.confidenceThreshold;
+                return (
+                  <div key={classification.intent.id} className={`rounded-md border border-border p-3 text-sm ${index === 0 && clears ? 'bg-muted/50' : 'opacity-70'}`}>
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{classification.intent.label}</span>
+                      {index === 0 && (clears ? <Badge>Fires</Badge> : <Badge variant="outline">Below threshold</Badge>)}
+                      <span className="text-xs text-muted-foreground">confidence {classification.confidence.toFixed(2)}</span>
+                    </div>
+                    <div className="text-xs text-muted-foreground mt-1">Closest to “{classification.closestExample}”</div>
+                  </div>
+                );
+              })
+            )}
+            <div className="text-xs font-medium text-muted-foreground pt-2">Keyword rules (used if embeddings fail)</div>
+          </div>
+        )}
+        {testPhrase.trim() && (
+          matches.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No intent fires; this would go to the language model.</p>
+          ) : (
+            <div className="space-y-2">
+              {matches.map((match, index) => (
+                <div key={match.intent.id} className={`rounded-md border border-border p-3 text-sm ${index === 0 ? 'bg-muted/50' : 'opacity-70'}`}>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{match.intent.label}</span>
+                    {index === 0 ? <Badge>Fires</Badge> : <Badge variant="outline">Outranked</Badge>}
+                    <span className="text-xs text-muted-foreground">priority {match.intent.priority}, score {match.score}</span>
+                  </div>
+                  <div className="text-xs text-muted-foreground mt-1">
+                    {match.matchedExample && <div>Matches the example “{match.matchedExample}”</div>}
+                    {match.matchedKeywords.length > 0 && <div>Keywords: {match.matchedKeywords.join(', ')}</div>}
+                    {match.matchedRequired.length > 0 && <div>Required terms: {match.matchedRequired.join(', ')}</div>}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )
+        )}
+      </Card>
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{editing ? `Edit ${editing.label}` : 'New Intent'}</DialogTitle>
+          </DialogHeader>
+          <div className="max-h-[70vh] overflow-y-auto pr-2">
+            {editing !== null && (
+              <IntentForm
+                intent={editing}
+                existingIds={intents.map(intent => intent.id).filter(id => id !== editing?.id)}
+                onSubmit={saveIntent}
+                onCancel={() => setEditing(null)}
+              />
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
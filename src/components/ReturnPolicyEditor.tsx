@@ -0,0 +1,123 @@
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Mail, PackageOpen, RotateCcw } from 'lucide-react';
+import {
+  DEFAULT_RETURN_POLICY,
+  getReturnAuthorizations,
+  getReturnPolicy,
+  ReturnPolicy,
+  returnSummaryMailto,
+  saveReturnPolicy,
+} from '@/lib/returns';
+
+// Only the latest few are listed; the rest stay in storage
+const RECENT_RETURNS = 5;
+
+// Rules the return flow checks before issuing an RMA, and the RMAs issued so far
+export const ReturnPolicyEditor = () => {
+  const [policy, setPolicy] = useState<ReturnPolicy>(() => getReturnPolicy());
+  // Edited as text so a trailing comma doesn't get swallowed while typing
+  const [categories, setCategories] = useState(() => policy.excludedCategories.join(', '));
+  const authorizations = getReturnAuthorizations();
+
+  const updatePolicy = (patch: Partial<ReturnPolicy>) => {
+    const next = { ...policy, ...patch };
+    setPolicy(next);
+    saveReturnPolicy(next);
+  };
+
+  const updateCategories = (value: string) => {
+    setCategories(value);
+    updatePolicy({ excludedCategories: value.split(',').map(category => category.trim()).filter(Boolean) });
+  };
+
+  const restoreDefaults = () => {
+    updatePolicy(DEFAULT_RETURN_POLICY);
+    setCategories(DEFAULT_RETURN_POLICY.excludedCategories.join(', '));
+  };
+
+  return (
+    <Card className="p-6 shadow-card space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <PackageOpen className="h-5 w-5" />
+          <h3 className="text-lg font-semibold">Return Policy</h3>
+          <Badge variant="secondary">{authorizations.length} RMA{authorizations.length === 1 ? '' : 's'} issued</Badge>
+        </div>
+        <Button size="sm" variant="outline" onClick={restoreDefaults}>
+          <RotateCcw className="h-4 w-4 mr-1" />
+          Defaults
+        </Button>
+      </div>
+
+      <div className="grid gap-6 md:grid-cols-2">
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="return-window">Return Window (days)</Label>
+            <Input
+              id="return-window"
+              type="number"
+              min={0}
+              className="w-28"
+              value={policy.windowDays}
+              onChange={(e) => updatePolicy({ windowDays: Math.max(0, Number(e.target.value) || 0) })}
+            />
+            <p className="text-xs text-muted-foreground">Counted from delivery, or from the purchase date the caller gives when there's no delivery date.</p>
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label htmlFor="return-condition">Require Original Condition</Label>
+              <p className="text-xs text-muted-foreground">The agent asks whether items are unused and in their packaging.</p>
+            </div>
+            <Switch
+              id="return-condition"
+              checked={policy.requireOriginalCondition}
+              onCheckedChange={(requireOriginalCondition) => updatePolicy({ requireOriginalCondition })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="return-excluded">Excluded Categories</Label>
+            <Input
+              id="return-excluded"
+              placeholder="clearance, gift cards"
+              value={categories}
+              onChange={(e) => updateCategories(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">Comma-separated item categories that can never be returned.</p>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Recent Returns</Label>
+          {authorizations.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No RMAs yet. They appear here once the agent authorizes a return.</p>
+          ) : (
+            authorizations.slice(0, RECENT_RETURNS).map((authorization) => (
+              <div key={authorization.rmaNumber} className="flex items-center justify-between gap-2 text-sm">
+                <div>
+                  <span className="font-mono">{authorization.rmaNumber}</span>{' '}
+                  <span className="text-muted-foreground">
+                    order {authorization.orderNumber} · {format(parseISO(authorization.createdAt), 'MMM d, yyyy')}
+                  </span>
+                </div>
+                <Button variant="ghost" size="sm" className="h-7 w-7 p-0" asChild>
+                  <a href={returnSummaryMailto(authorization)} aria-label={`Email summary for ${authorization.rmaNumber}`}>
+                    <Mail className="h-3.5 w-3.5" />
+                  </a>
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </Card>
+  );
+};
@@ -2,26 +2,142 @@ import { ScrollArea } from '@/components/ui/scroll-area';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Download, Clock, User, Bot } from 'lucide-react';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { Download, Clock, User, Bot, BookOpen, ChevronDown, Wrench, Copy, Mail, PackageOpen, Headset } from 'lucide-react';
+import { AnswerSource } from '@/lib/ai-services';
+import { ToolInvocation } from '@/lib/tools';
+import { ReturnAuthorization, returnSummaryMailto } from '@/lib/returns';
 import { CallSession, Message } from './CallInterface';
 
 interface TranscriptPanelProps {
   session: CallSession | null;
-  onAddMessage: (text: string, speaker: 'agent' | 'customer') => void;
+  onAddMessage: (text: string, speaker: Message['speaker']) => void;
   isProcessing: boolean;
   setIsProcessing: (processing: boolean) => void;
+  // What the customer is saying right now, before the recognizer commits to it
+  interimTranscript?: string;
 }
 
-export const TranscriptPanel = ({ session, onAddMessage, isProcessing }: TranscriptPanelProps) => {
+const describeSource = (source: AnswerSource) =>
+  source.kind === 'intent'
+    ? `intent "${source.label}" (${source.intentId})`
+    : `${source.documentName}, passage ${source.chunkIndex + 1}`;
+
+const MessageIcon = ({ speaker }: { speaker: Message['speaker'] }) => {
+  if (speaker === 'system') {
+    return <Wrench className="h-4 w-4 text-muted-foreground" />;
+  }
+  return speaker === 'agent' ? (
+    <Bot className="h-4 w-4 text-primary" />
+  ) : (
+    <User className="h-4 w-4 text-secondary-foreground" />
+  );
+};
+
+// Compact, expandable line for a tool the agent called
+const ToolEvent = ({ invocation, timestamp }: { invocation: ToolInvocation; timestamp: Date }) => (
+  <Collapsible>
+    <CollapsibleTrigger asChild>
+      <button className="group flex w-full items-center gap-2 text-xs text-muted-foreground hover:text-foreground">
+        <MessageIcon speaker="system" />
+        <span className={invocation.error ? 'text-destructive' : undefined}>
+          Tool: <span className="font-mono">{invocation.name}</span>
+          {invocation.error && ' failed'}
+        </span>
+        <span>{timestamp.toLocaleTimeString()}</span>
+        <ChevronDown className="h-3 w-3 transition-transform group-data-[state=open]:rotate-180" />
+      </button>
+    </CollapsibleTrigger>
+    <CollapsibleContent className="mt-2 space-y-1 rounded-md border border-dashed border-border p-2 font-mono text-[11px]">
+      <pre className="whitespace-pre-wrap break-all">args: {JSON.stringify(invocation.args, null, 2)}</pre>
+      {invocation.error ? (
+        <pre className="whitespace-pre-wrap break-all text-destructive">error: {invocation.error}</pre>
+      ) : (
+        <pre className="whitespace-pre-wrap break-all">result: {JSON.stringify(invocation.result, null, 2)}</pre>
+      )}
+    </CollapsibleContent>
+  </Collapsible>
+);
+
+// An RMA issued on the call, with its summary ready to copy or email to the customer
+const ReturnCard = ({ authorization }: { authorization: ReturnAuthorization }) => (
+  <div className="rounded-md border border-border bg-muted/40 p-3 space-y-2">
+    <div className="flex items-center justify-between gap-2">
+      <div className="flex items-center gap-2 text-sm font-medium">
+        <PackageOpen className="h-4 w-4 text-primary" />
+        <span className="font-mono">{authorization.rmaNumber}</span>
+        <Badge variant="outline" className="px-1.5 py-0 text-[10px]">Order {authorization.orderNumber}</Badge>
+      </div>
+      <div className="flex items-center gap-1">
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 w-7 p-0"
+          onClick={() => navigator.clipboard.writeText(authorization.summary)}
+          aria-label={`Copy summary for ${authorization.rmaNumber}`}
+        >
+          <Copy className="h-3.5 w-3.5" />
+        </Button>
+        <Button variant="ghost" size="sm" className="h-7 w-7 p-0" asChild>
+          <a href={returnSummaryMailto(authorization)} aria-label={`Email summary for ${authorization.rmaNumber}`}>
+            <Mail className="h-3.5 w-3.5" />
+          </a>
+        </Button>
+      </div>
+    </div>
+    <p className="text-xs text-muted-foreground leading-relaxed">{authorization.summary}</p>
+  </div>
+);
+
+// Expandable "answered from" chip under an agent answer
+const SourcesChip = ({ sources }: { sources: AnswerSource[] }) => {
+  const best = Math.max(...sources.map(source => source.confidence));
+  return (
+    <Collapsible>
+      <CollapsibleTrigger asChild>
+        <button className="group inline-flex items-center gap-1 rounded-full border border-border px-2 py-0.5 text-[11px] text-muted-foreground hover:bg-muted">
+          <BookOpen className="h-3 w-3" />
+          Answered from {sources[0].kind === 'intent' ? sources[0].label : `${sources.length} document passage${sources.length > 1 ? 's' : ''}`}
+          <span className="opacity-70">· {Math.round(best * 100)}%</span>
+          <ChevronDown className="h-3 w-3 transition-transform group-data-[state=open]:rotate-180" />
+        </button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="mt-2 space-y-2">
+        {sources.map((source) => (
+          <div key={source.kind === 'intent' ? source.intentId : source.chunkId} className="rounded-md border border-border p-2 text-xs">
+            <div className="flex justify-between gap-2 text-muted-foreground">
+              <span className="font-medium text-foreground">{describeSource(source)}</span>
+              <span>confidence {source.confidence.toFixed(2)}</span>
+            </div>
+            {source.kind === 'document' && (
+              <p className="mt-1 whitespace-pre-line line-clamp-3 text-muted-foreground">{source.excerpt}</p>
+            )}
+          </div>
+        ))}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
+
+export const TranscriptPanel = ({ session, onAddMessage, isProcessing, interimTranscript }: TranscriptPanelProps) => {
   
   const downloadTranscript = () => {
     if (!session) return;
     
-    const transcript = session.messages.map(msg => 
-      `[${msg.timestamp.toLocaleTimeString()}] ${msg.speaker.toUpperCase()}: ${msg.text}`
-    ).join('\n');
+    const transcript = session.messages.map(msg => {
+      if (msg.toolInvocation) {
+        return `[${msg.timestamp.toLocaleTimeString()}] TOOL ${msg.toolInvocation.name}(${JSON.stringify(msg.toolInvocation.args)}) -> ${
+          msg.toolInvocation.error ? `error: ${msg.toolInvocation.error}` : JSON.stringify(msg.toolInvocation.result)
+        }`;
+      }
+      const line = `[${msg.timestamp.toLocaleTimeString()}] ${msg.fromOperator ? 'OPERATOR' : msg.speaker.toUpperCase()}: ${msg.text}`;
+      return msg.sources?.length ? `${line}\n    (answered from ${msg.sources.map(describeSource).join('; ')})` : line;
+    }).join('\n');
+    const returns = (session.returns ?? []).map(authorization => `RETURN ${authorization.rmaNumber}: ${authorization.summary}`);
+    const handoff = session.handoff ? [`HANDOFF: ${session.handoff.text}`] : [];
+    const notes = [...returns, ...handoff].join('\n');
     
-    const blob = new Blob([transcript], { type: 'text/plain' });
+    const blob = new Blob([notes ? `${transcript}\n\n${notes}` : transcript], { type: 'text/plain' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
@@ -37,14 +153,6 @@ export const TranscriptPanel = ({ session, onAddMessage, isProcessing }: Transcr
     return `${minutes}:${(seconds % 60).toString().padStart(2, '0')}`;
   };
 
-  const MessageIcon = ({ speaker }: { speaker: 'agent' | 'customer' }) => {
-    return speaker === 'agent' ? (
-      <Bot className="h-4 w-4 text-primary" />
-    ) : (
-      <User className="h-4 w-4 text-secondary-foreground" />
-    );
-  };
-
   return (
     <Card className="h-[600px] flex flex-col shadow-card">
       <div className="p-4 border-b border-border">
@@ -81,14 +189,45 @@ export const TranscriptPanel = ({ session, onAddMessage, isProcessing }: Transcr
           </div>
         ) : (
           <div className="space-y-4">
-            {session.messages.map((message) => (
+            {session.handoff && (
+              <div className="rounded-md border border-call-muted bg-call-muted/10 p-3 space-y-1">
+                <div className="flex items-center gap-2 text-sm font-medium">
+                  <Headset className="h-4 w-4" />
+                  Handed to an operator
+                </div>
+                <p className="text-xs text-muted-foreground leading-relaxed">{session.handoff.text}</p>
+              </div>
+            )}
+
+            {session.returns && session.returns.length > 0 && (
+              <div className="space-y-2">
+                {session.returns.map((authorization) => (
+                  <ReturnCard key={authorization.rmaNumber} authorization={authorization} />
+                ))}
+              </div>
+            )}
+
+            {session.messages.map((message) => message.toolInvocation ? (
+              <ToolEvent key={message.id} invocation={message.toolInvocation} timestamp={message.timestamp} />
+            ) : message.speaker === 'system' ? (
+              <div key={message.id} className="flex items-center justify-center gap-2 text-xs text-muted-foreground">
+                <Headset className="h-3 w-3" />
+                <span>{message.text}</span>
+                <span>{message.timestamp.toLocaleTimeString()}</span>
+              </div>
+            ) : (
               <div key={message.id} className="space-y-2">
                 <div className="flex items-center gap-2 text-xs text-muted-foreground">
                   <MessageIcon speaker={message.speaker} />
                   <span className="capitalize font-medium">
-                    {message.speaker}
+                    {message.fromOperator ? 'Operator' : message.speaker}
                   </span>
                   <span>{message.timestamp.toLocaleTimeString()}</span>
+                  {message.language && message.language !== 'en' && (
+                    <Badge variant="outline" className="px-1.5 py-0 text-[10px] uppercase">
+                      {message.language}
+                    </Badge>
+                  )}
                 </div>
                 
                 <div className={`p-3 rounded-lg border ${
@@ -96,11 +235,31 @@ export const TranscriptPanel = ({ session, onAddMessage, isProcessing }: Transcr
                     ? 'bg-agent-message border-border/50' 
                     : 'bg-customer-message border-border'
                 }`}>
-                  <p className="text-sm leading-relaxed">{message.text}</p>
+                  <p className="text-sm leading-relaxed">
+                    {message.text}
+                    {message.isStreaming && (
+                      <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-primary animate-pulse" />
+                    )}
+                  </p>
                 </div>
+                {message.sources && message.sources.length > 0 && (
+                  <SourcesChip sources={message.sources} />
+                )}
               </div>
             ))}
             
+            {interimTranscript && (
+              <div className="space-y-2 opacity-60">
+                <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                  <MessageIcon speaker="customer" />
+                  <span className="font-medium">Customer (listening...)</span>
+                </div>
+                <div className="p-3 rounded-lg border border-dashed bg-customer-message border-border">
+                  <p className="text-sm leading-relaxed italic">{interimTranscript}</p>
+                </div>
+              </div>
+            )}
+            
             {isProcessing && (
               <div className="flex items-center gap-2 text-sm text-muted-foreground">
                 <div className="animate-pulse flex space-x-1">
@@ -115,7 +274,7 @@ export const TranscriptPanel = ({ session, onAddMessage, isProcessing }: Transcr
         )}
       </ScrollArea>
 
-      {session && session.status === 'active' && (
+      {session && ['active', 'escalated', 'operator'].includes(session.status) && (
         <div className="p-4 border-t border-border">
           <div className="text-xs text-muted-foreground text-center">
             Real-time transcript • Session {session.id}
@@ -0,0 +1,141 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Slider } from '@/components/ui/slider';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Check, Loader2, Volume2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { AIServices, getApiKeys } from '@/lib/ai-services';
+import { fetchElevenLabsVoices } from '@/lib/elevenlabs-voices';
+import { getAgentSettings, TextToSpeechSettings, VoiceSettings } from '@/lib/settings';
+
+interface VoicePickerProps {
+  settings: TextToSpeechSettings;
+  onChange: (patch: Partial<TextToSpeechSettings>) => void;
+}
+
+const voiceSettingSliders: Array<{ key: keyof VoiceSettings; label: string }> = [
+  { key: 'stability', label: 'Stability' },
+  { key: 'similarityBoost', label: 'Similarity Boost' },
+  { key: 'style', label: 'Style' },
+];
+
+// Browse the ElevenLabs voices on the configured account, preview them and pick one
+export const VoicePicker = ({ settings, onChange }: VoicePickerProps) => {
+  const [previewText, setPreviewText] = useState('Hi, thanks for calling! How can I help you today?');
+  const [previewingId, setPreviewingId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const apiKey = getApiKeys().elevenlabsKey;
+  const { data: voices, isLoading, error } = useQuery({
+    queryKey: ['elevenlabs-voices', settings.baseUrl, apiKey],
+    queryFn: () => fetchElevenLabsVoices(apiKey, settings.baseUrl),
+    enabled: !!apiKey,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const previewVoice = async (voiceId: string) => {
+    setPreviewingId(voiceId);
+    try {
+      // Synthesize through the regular pipeline so the preview uses the current model and voice settings
+      const agentSettings = getAgentSettings();
+      const services = new AIServices(getApiKeys(), {
+        ...agentSettings,
+        tts: { ...settings, provider: 'elevenlabs', voice: voiceId },
+        demo: { ...agentSettings.demo, enabled: false },
+      });
+      const speech = await services.textToSpeech(previewText);
+      await services.playAudio(speech);
+    } catch (previewError) {
+      console.error('Error previewing voice:', previewError);
+      toast({ title: 'Preview Failed', description: 'Unable to synthesize the preview sentence', variant: 'destructive' });
+    } finally {
+      setPreviewingId(null);
+    }
+  };
+
+  const updateVoiceSetting = (key: keyof VoiceSettings, value: number) => {
+    onChange({ voiceSettings: { ...settings.voiceSettings, [key]: value } });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        <Label htmlFor="voice-preview-text">Preview Sentence</Label>
+        <Input
+          id="voice-preview-text"
+          value={previewText}
+          onChange={(e) => setPreviewText(e.target.value)}
+        />
+      </div>
+
+      {!apiKey ? (
+        <p className="text-xs text-muted-foreground">Add an ElevenLabs API key to browse voices.</p>
+      ) : isLoading ? (
+        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+          <Loader2 className="h-3 w-3 animate-spin" />
+          Loading voices...
+        </div>
+      ) : error ? (
+        <p className="text-xs text-destructive">Unable to load voices: {(error as Error).message}</p>
+      ) : (
+        <ScrollArea className="h-56 rounded-md border border-border">
+          <div className="divide-y divide-border">
+            {voices?.map((voice) => {
+              const isSelected = settings.voice === voice.id;
+              return (
+                <div key={voice.id} className={`flex items-center gap-2 p-2 ${isSelected ? 'bg-muted/50' : ''}`}>
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <div className="text-sm font-medium truncate">{voice.name}</div>
+                    <div className="flex flex-wrap gap-1">
+                      {[voice.gender, voice.accent, voice.language, voice.category].filter(Boolean).map((tag) => (
+                        <Badge key={tag} variant="secondary" className="text-[10px] px-1.5 py-0 capitalize">
+                          {tag}
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-7 w-7"
+                    onClick={() => previewVoice(voice.id)}
+                    disabled={previewingId !== null || !previewText.trim()}
+                  >
+                    {previewingId === voice.id ? <Loader2 className="h-3 w-3 animate-spin" /> : <Volume2 className="h-3 w-3" />}
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant={isSelected ? 'default' : 'outline'}
+                    onClick={() => onChange({ voice: voice.id })}
+                  >
+                    {isSelected ? <Check className="h-3 w-3" /> : 'Use'}
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        </ScrollArea>
+      )}
+
+      {voiceSettingSliders.map(({ key, label }) => (
+        <div key={key} className="space-y-2">
+          <div className="flex justify-between text-xs">
+            <Label>{label}</Label>
+            <span className="text-muted-foreground">{settings.voiceSettings[key].toFixed(2)}</span>
+          </div>
+          <Slider
+            min={0}
+            max={1}
+            step={0.05}
+            value={[settings.voiceSettings[key]]}
+            onValueChange={([value]) => updateVoiceSetting(key, value)}
+          />
+        </div>
+      ))}
+    </div>
+  );
+};
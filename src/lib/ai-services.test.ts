@@ -0,0 +1,57 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { AIServices } from './ai-services';
+import { DEFAULT_AGENT_SETTINGS } from './settings';
+import { DialogState } from './dialog';
+
+const demoSettings = { ...DEFAULT_AGENT_SETTINGS, demo: { enabled: true, voice: 'demo-tone' as const } };
+const askedAboutReturns: DialogState = { kind: 'disambiguation', candidateIds: ['return'], originalMessage: 'I have a question' };
+
+beforeEach(() => {
+  const store = new Map<string, string>();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => store.get(key) ?? null,
+    setItem: (key: string, value: string) => store.set(key, value),
+    removeItem: (key: string) => store.delete(key),
+  });
+});
+
+describe('clarifying question with one option', () => {
+  const reply = (message: string) => {
+    const onSources = vi.fn();
+    const response = new AIServices({ openaiKey: '', elevenlabsKey: '', deepgramKey: '', orderApiKey: '' }, demoSettings)
+      .generateResponse(message, [], { dialog: askedAboutReturns, onSources });
+    return response.then(text => ({ text, answered: onSources.mock.calls.length > 0 }));
+  };
+
+  it('answers the intent on a plain yes', async () => {
+    expect((await reply('yes')).answered).toBe(true);
+  });
+
+  it.each(["no, that's not right", 'not correct'])('does not answer the intent on "%s"', async (message) => {
+    const { text, answered } = await reply(message);
+    expect(answered).toBe(false);
+    expect(text).toMatch(/tell me a bit more/);
+  });
+});
+
+describe('intent matching below the embedding threshold', () => {
+  const matchedIntent = async (message: string) => {
+    const onSources = vi.fn();
+    await new AIServices({ openaiKey: '', elevenlabsKey: '', deepgramKey: '', orderApiKey: '' }, demoSettings)
+      .generateResponse(message, [], { onSources });
+    return onSources.mock.calls[0]?.[0][0].intentId;
+  };
+
+  it.each([
+    ['I want to return my lamp', 'return'],
+    ['can I exchange a shirt', 'return'],
+    ['Is the store open now?', 'hours'],
+    ['What time does my package arrive', 'tracking'],
+  ])('falls back to the keyword rules for "%s"', async (message, intentId) => {
+    expect(await matchedIntent(message)).toBe(intentId);
+  });
+
+  it('leaves messages no rule covers to the language model', async () => {
+    expect(await matchedIntent('Do you sell gift cards?')).toBeUndefined();
+  });
+});
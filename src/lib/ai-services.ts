@@ -1,182 +1,618 @@
 // AI Services for Speech-to-Text, LLM, and Text-to-Speech
 
+import { AgentSettings, DEFAULT_AGENT_SETTINGS, DEFAULT_BASE_URLS, EscalationSettings, getAgentSettings, TextToSpeechProviderId } from './settings';
+import { getSpeechToTextProvider, SpeechToTextContext, Transcription } from './stt-providers';
+import {
+  canPlayAudioFormat,
+  getTextToSpeechProvider,
+  negotiateAudioFormat,
+  SynthesizedSpeech,
+  TextToSpeechContext,
+} from './tts-providers';
+import { fillTemplate, trimTrailingSlash } from './utils';
+import { audioPlayer } from './audio-player';
+import { hasDemoReply, streamDemoReply } from './demo-mode';
+import { isWebSpeechSupported } from './web-speech';
+import { DEFAULT_LANGUAGE, LanguageCode, SUPPORTED_LANGUAGES } from './languages';
+import { getIntents, Intent, intentResponse, rankIntents } from './intents';
+import { EmbeddingContext } from './embeddings';
+import { classifyIntent, IntentClassification } from './semantic-matcher';
+import { getDocuments, RetrievedPassage, retrievePassages } from './documents';
+import { DialogState, formatChoices, pickOrdinal, yesOrNo } from './dialog';
+import { continueFlow, getDialogFlow, startFlow } from './dialog-flows';
+import { invokeTool, ToolContext, toolDefinitions, ToolInvocation } from './tools';
+import { describeOpeningStatus, describeWeeklyHours, getBusinessHours } from './business-hours';
+import { getReturnPolicy } from './returns';
+import { checkEscalation, describeHold, EscalationReason, EscalationSignals, NO_ESCALATION_SIGNALS } from './escalation';
+
+// How far below the confidence threshold a message can be and still prompt a clarifying question
+const CLARIFY_MARGIN = 0.1;
+
+// Intents scoring within this of the best one are too close to call
+const TIE_MARGIN = 0.05;
+
+// Most options offered in one clarifying question
+const MAX_CHOICES = 3;
+
+// Tool-calling rounds per reply before the model has to answer with what it has
+const MAX_TOOL_ROUNDS = 3;
+
 export interface ApiKeys {
   openaiKey: string;
   elevenlabsKey: string;
+  deepgramKey: string;
+  // Sent as a bearer token to the order API, when it needs one
+  orderApiKey: string;
+}
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string;
+  // Tools the assistant asked to call
+  tool_calls?: ChatToolCall[];
+  // The call a tool message answers
+  tool_call_id?: string;
+}
+
+export interface ChatToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+// Where an agent answer came from, kept on the transcript so reviewers can audit it
+export type AnswerSource =
+  | { kind: 'intent'; intentId: string; label: string; confidence: number }
+  | { kind: 'document'; documentId: string; documentName: string; chunkId: string; chunkIndex: number; confidence: number; excerpt: string };
+
+export interface ResponseOptions {
+  language?: LanguageCode;
+  // Where the previous turn left the dialog, e.g. waiting on an answer to a clarifying question
+  dialog?: DialogState;
+  // Called before the reply when it's grounded in an intent or document passages
+  onSources?: (sources: AnswerSource[]) => void;
+  // Called with the dialog state the next turn should pick up from
+  onDialogChange?: (dialog: DialogState) => void;
+  // Called as each tool invocation finishes, from function calling or a dialog flow
+  onToolEvent?: (invocation: ToolInvocation) => void;
+  // What earlier turns counted towards escalating, like fallback answers in a row
+  escalation?: EscalationSignals;
+  // Called with the escalation signals the next turn should pick up from
+  onEscalationSignals?: (signals: EscalationSignals) => void;
+  // Called when the call should go to a person; the reply is then the hold message
+  onEscalate?: (reason: EscalationReason) => void;
+}
+
+type IntentDecision =
+  | { kind: 'answer'; intent: Intent; confidence: number }
+  | { kind: 'clarify'; candidates: Intent[] };
+
+// Live values an intent response can mention, like "{openingStatus} Our regular hours are {weeklyHours}."
+function fillResponseVariables(response: string, language: LanguageCode): string {
+  if (!response.includes('{')) return response;
+  const hours = getBusinessHours();
+  return fillTemplate(response, {
+    openingStatus: describeOpeningStatus(hours, language),
+    weeklyHours: describeWeeklyHours(hours, language),
+    returnWindowDays: String(getReturnPolicy().windowDays),
+  });
+}
+
+// Intents to offer the caller, at most MAX_CHOICES; intents that start the same flow end up in the same place, so only the first is kept
+function distinctChoices(intents: Intent[]): Intent[] {
+  const seenFlows = new Set<string>();
+  return intents.filter(intent => {
+    if (!intent.flow) return true;
+    if (seenFlows.has(intent.flow)) return false;
+    seenFlows.add(intent.flow);
+    return true;
+  }).slice(0, MAX_CHOICES);
 }
 
 export class AIServices {
   private apiKeys: ApiKeys;
+  private settings: AgentSettings;
 
-  // Predefined responses for specific questions
-  private predefinedResponses = {
-    "hours": "We're open Monday through Friday, 9 AM to 6 PM Eastern Time. We're closed on weekends and holidays.",
-    "return": "We offer a 30-day return policy for all items. Items must be in original condition with receipt. Free return shipping is included.",
-    "tracking": "You can track your order using the tracking number sent to your email, or log into your account on our website to view real-time updates."
+  // Guidance when no LLM is configured, in every supported language; {topics} lists the intent labels
+  private topicsFallback: Record<LanguageCode, string> = {
+    en: "Hi! I can help you with a few topics: {topics}. Please ask me about one of those and I'll give you a quick answer!",
+    es: "¡Hola! Puedo ayudarle con algunos temas: {topics}. Pregúnteme por uno de ellos y le responderé enseguida.",
+    fr: "Bonjour ! Je peux vous aider sur quelques sujets : {topics}. Posez-moi une question sur l'un d'eux et je vous répondrai tout de suite.",
+    de: "Hallo! Ich kann Ihnen bei einigen Themen helfen: {topics}. Fragen Sie mich dazu, und ich antworte sofort."
   };
 
-  constructor(apiKeys: ApiKeys) {
+  // Asked when a message is close to, but not confidently, one or more intents; {topic} lists their labels
+  private clarifyingQuestion: Record<LanguageCode, string> = {
+    en: "Just to make sure I help with the right thing, are you asking about {topic}?",
+    es: "Para asegurarme de ayudarle con lo correcto, ¿me pregunta sobre {topic}?",
+    fr: "Pour être sûr de bien vous aider, votre question concerne-t-elle {topic} ?",
+    de: "Damit ich Ihnen richtig helfe: Geht es Ihnen um {topic}?"
+  };
+
+  // Reply when the customer says none of the offered topics is what they meant
+  private declinedClarification: Record<LanguageCode, string> = {
+    en: "Sorry about that. Could you tell me a bit more about what you need?",
+    es: "Disculpe. ¿Podría contarme un poco más sobre lo que necesita?",
+    fr: "Excusez-moi. Pourriez-vous m'en dire un peu plus sur ce dont vous avez besoin ?",
+    de: "Entschuldigung. Können Sie mir etwas genauer sagen, was Sie brauchen?"
+  };
+
+  constructor(apiKeys: ApiKeys, settings: AgentSettings = getAgentSettings()) {
     this.apiKeys = apiKeys;
+    this.settings = settings;
+  }
+
+  private get speechToTextContext(): SpeechToTextContext {
+    return { apiKeys: this.apiKeys, settings: this.settings.stt };
+  }
+
+  private get textToSpeechContext(): TextToSpeechContext {
+    return { apiKeys: this.apiKeys, settings: this.settings.tts };
+  }
+
+  // Demo mode always embeds locally so it stays offline
+  private get embeddingContext(): EmbeddingContext {
+    const settings = this.isDemoMode
+      ? { ...this.settings.matching, embeddingProvider: 'local-trigram' as const }
+      : this.settings.matching;
+    return { apiKeys: this.apiKeys, settings };
+  }
+
+  get isDemoMode(): boolean {
+    return this.settings.demo.enabled;
+  }
+
+  get isAssistMode(): boolean {
+    return this.settings.assist.enabled;
+  }
+
+  // A person is already on the call in assist mode, so there's no one to escalate to
+  private get escalationSettings(): EscalationSettings {
+    return this.isAssistMode ? { ...this.settings.escalation, enabled: false } : this.settings.escalation;
+  }
+
+  // Demo mode swaps in a local voice, falling back to the tone where speechSynthesis is missing
+  private get textToSpeechProviderId(): TextToSpeechProviderId {
+    if (!this.isDemoMode) {
+      return this.settings.tts.provider;
+    }
+    return this.settings.demo.voice === 'browser' && canPlayAudioFormat('speech') ? 'browser' : 'demo-tone';
   }
 
-  // Detect which of the 3 supported questions is being asked
-  private detectQuestion(message: string): string | null {
-    const normalizedMessage = message.toLowerCase().trim();
-    
-    // Check for hours-related questions
-    if ((normalizedMessage.includes('hour') || normalizedMessage.includes('open') || normalizedMessage.includes('time') || normalizedMessage.includes('when')) &&
-        (normalizedMessage.includes('what') || normalizedMessage.includes('when') || normalizedMessage.includes('your'))) {
-      return "hours";
-    }
-    
-    // Check for return policy questions
-    if ((normalizedMessage.includes('return') || normalizedMessage.includes('refund') || normalizedMessage.includes('policy')) &&
-        (normalizedMessage.includes('what') || normalizedMessage.includes('how') || normalizedMessage.includes('your'))) {
-      return "return";
-    }
-    
-    // Check for order tracking questions
-    if ((normalizedMessage.includes('track') || normalizedMessage.includes('order') || normalizedMessage.includes('shipping') || normalizedMessage.includes('package')) &&
-        (normalizedMessage.includes('how') || normalizedMessage.includes('where') || normalizedMessage.includes('my'))) {
-      return "tracking";
-    }
-    
+  // Whether the selected providers have everything they need to run a call
+  isConfigured(): boolean {
+    if (this.isDemoMode) {
+      return true;
+    }
+
+    const sttProvider = getSpeechToTextProvider(this.settings.stt.provider);
+    const ttsProvider = getTextToSpeechProvider(this.settings.tts.provider);
+    const canTranscribe = this.usesWebSpeech || sttProvider.isConfigured(this.speechToTextContext);
+    // Assist mode only suggests replies, so it needs no voice
+    return canTranscribe && (this.isAssistMode || ttsProvider.isConfigured(this.textToSpeechContext));
+  }
+
+  // Web Speech mode only applies where the browser has the API; otherwise the recorder takes over
+  get usesWebSpeech(): boolean {
+    return this.settings.stt.mode === 'web-speech' && isWebSpeechSupported();
+  }
+
+  get speechToTextLanguage(): string {
+    return this.settings.stt.language;
+  }
+
+  get trailingSilenceMs(): number {
+    return this.settings.stt.trailingSilenceMs;
+  }
+
+  // Convert audio blob to text using the configured speech-to-text provider
+  async speechToText(audioBlob: Blob): Promise<Transcription> {
+    const provider = getSpeechToTextProvider(this.settings.stt.provider);
+    return provider.transcribe(audioBlob, this.speechToTextContext);
+  }
+
+  // Generate AI response - Fast responses for the configured FAQ intents, LLM for everything else
+  async generateResponse(
+    customerMessage: string,
+    conversationHistory: ChatMessage[],
+    options: ResponseOptions = {}
+  ): Promise<string> {
+    let response = '';
+    for await (const delta of this.generateResponseStream(customerMessage, conversationHistory, options)) {
+      response += delta;
+    }
+    return response.trim();
+  }
+
+  // Same as generateResponse, but yields the reply piece by piece as the model produces it
+  async *generateResponseStream(
+    customerMessage: string,
+    conversationHistory: ChatMessage[],
+    options: ResponseOptions = {}
+  ): AsyncGenerator<string> {
+    const { language = DEFAULT_LANGUAGE, dialog = null, onSources, onDialogChange } = options;
+    console.log('Processing message:', customerMessage);
+    const intents = getIntents();
+
+    // Asking for a person, or sounding upset turn after turn, hands the call over before anything else
+    const { reason, signals } = checkEscalation(customerMessage, options.escalation ?? NO_ESCALATION_SIGNALS, language, this.escalationSettings);
+    options.onEscalationSignals?.({ ...signals, fallbacks: 0 });
+    if (reason) {
+      yield this.escalate(reason, options);
+      return;
+    }
+
+    // A flow that's collecting details takes every turn until it finishes or is cancelled
+    if (dialog?.kind === 'flow') {
+      const flow = getDialogFlow(dialog.flowId);
+      if (flow) {
+        const turn = await continueFlow(flow, dialog, customerMessage, this.toolContext(options));
+        onDialogChange?.(turn.dialog);
+        yield turn.reply;
+        return;
+      }
+      onDialogChange?.(null);
+    }
+
+    // A pending clarifying question is resolved against this reply before anything else
+    if (dialog?.kind === 'disambiguation') {
+      onDialogChange?.(null);
+      const candidates = dialog.candidateIds
+        .map(id => intents.find(intent => intent.id === id))
+        .filter((intent): intent is Intent => !!intent);
+      const resolution = await this.resolveDisambiguation(customerMessage, candidates, language);
+      if (resolution === 'declined') {
+        yield this.isRepeatedFallback(signals, options) ? this.escalate('repeated-fallback', options) : this.declinedClarification[language];
+        return;
+      }
+      if (resolution) {
+        console.log(`Clarified intent: ${resolution.intent.id}`);
+        yield this.answerIntent(resolution.intent, resolution.confidence, `${dialog.originalMessage} ${customerMessage}`, options);
+        return;
+      }
+      // Otherwise they've moved on; treat the reply as a new question
+    }
+
+    // Check if this matches one of the FAQ intents for an instant response
+    const decision = await this.findIntent(customerMessage, intents);
+    if (decision?.kind === 'answer') {
+      console.log(`Fast response for: ${decision.intent.id}`);
+      yield this.answerIntent(decision.intent, decision.confidence, customerMessage, options);
+      return;
+    }
+    if (decision?.kind === 'clarify') {
+      console.log(`Clarifying between: ${decision.candidates.map(intent => intent.id).join(', ')}`);
+      onDialogChange?.({
+        kind: 'disambiguation',
+        candidateIds: decision.candidates.map(intent => intent.id),
+        originalMessage: customerMessage,
+      });
+      const topics = formatChoices(decision.candidates.map(intent => intent.label.toLowerCase()), language);
+      yield this.clarifyingQuestion[language].replace('{topic}', topics);
+      return;
+    }
+
+    // Demo mode never touches the network
+    if (this.isDemoMode) {
+      if (!hasDemoReply(customerMessage) && this.isRepeatedFallback(signals, options)) {
+        yield this.escalate('repeated-fallback', options);
+        return;
+      }
+      yield* streamDemoReply(customerMessage, conversationHistory);
+      return;
+    }
+
+    // Without an LLM configured, guide them to the topics the intents cover
+    if (!this.isLanguageModelConfigured()) {
+      if (this.isRepeatedFallback(signals, options)) {
+        yield this.escalate('repeated-fallback', options);
+        return;
+      }
+      const topics = intents.map(intent => intent.label.toLowerCase()).join(', ');
+      yield this.topicsFallback[language].replace('{topics}', topics);
+      return;
+    }
+
+    yield* this.streamChat(customerMessage, conversationHistory, options);
+  }
+
+  // Count a fallback answer; true once there have been enough in a row that a person should take over
+  private isRepeatedFallback(signals: EscalationSignals, options: ResponseOptions): boolean {
+    const fallbacks = signals.fallbacks + 1;
+    options.onEscalationSignals?.({ ...signals, fallbacks });
+    return this.escalationSettings.enabled && fallbacks > this.escalationSettings.maxFallbacks;
+  }
+
+  // Hand the call to a person: drop whatever the dialog was doing and put the caller on hold
+  private escalate(reason: EscalationReason, options: ResponseOptions): string {
+    console.log(`Escalating: ${reason}`);
+    options.onEscalate?.(reason);
+    options.onDialogChange?.(null);
+    return describeHold(this.settings.escalation, options.language ?? DEFAULT_LANGUAGE);
+  }
+
+  // The intent's canned response, followed by its dialog flow's first question when it has one
+  private answerIntent(intent: Intent, confidence: number, message: string, options: ResponseOptions): string {
+    const language = options.language ?? DEFAULT_LANGUAGE;
+    options.onSources?.([{ kind: 'intent', intentId: intent.id, label: intent.label, confidence }]);
+
+    const flow = intent.flow && getDialogFlow(intent.flow);
+    if (!flow) {
+      return fillResponseVariables(intentResponse(intent, language), language);
+    }
+    const turn = startFlow(flow, message, language, fillResponseVariables(intentResponse(intent, language), language));
+    options.onDialogChange?.(turn.dialog);
+    return turn.reply;
+  }
+
+  // Answer an intent outright, ask which of several was meant, or (null) leave the message to the LLM
+  private async findIntent(message: string, intents: Intent[]): Promise<IntentDecision | null> {
+    const { method, confidenceThreshold, belowThreshold } = this.settings.matching;
+    if (method === 'keywords') {
+      return this.findIntentByKeywords(message, intents);
+    }
+
+    let ranked: IntentClassification[];
+    try {
+      ranked = await classifyIntent(message, intents, this.embeddingContext);
+    } catch (error) {
+      // Fall back to the keyword rules when the embeddings provider is unreachable
+      console.error('Error classifying intent, using keywords:', error);
+      return this.findIntentByKeywords(message, intents);
+    }
+
+    const [best, runnerUp] = ranked;
+    if (!best) return null;
+    console.log(`Closest intent: ${best.intent.id} (${best.confidence.toFixed(2)})`);
+    const tied = distinctChoices(ranked
+      .filter(classification => best.confidence - classification.confidence < TIE_MARGIN)
+      .map(classification => classification.intent));
+
+    if (best.confidence >= confidenceThreshold) {
+      // Two intents both clear the bar and neither clearly wins
+      if (runnerUp && runnerUp.confidence >= confidenceThreshold && tied.length > 1) {
+        return { kind: 'clarify', candidates: tied };
+      }
+      return { kind: 'answer', intent: best.intent, confidence: best.confidence };
+    }
+    // The keyword rules still catch phrasings the examples don't cover, like "can I exchange a shirt"
+    const byKeywords = this.findIntentByKeywords(message, intents);
+    if (byKeywords) {
+      console.log('Below the threshold; using the keyword rules');
+      return byKeywords;
+    }
+    if (belowThreshold === 'clarify' && best.confidence >= confidenceThreshold - CLARIFY_MARGIN) {
+      return { kind: 'clarify', candidates: tied };
+    }
     return null;
   }
 
-  // Convert audio blob to text using OpenAI Whisper
-  async speechToText(audioBlob: Blob): Promise<string> {
-    if (!this.apiKeys.openaiKey) {
-      throw new Error('OpenAI API key not configured');
+  // Keyword rules are all-or-nothing, so a match counts as fully confident; equal-ranked matches are a tie
+  private findIntentByKeywords(message: string, intents: Intent[]): IntentDecision | null {
+    const [best, ...rest] = rankIntents(message, intents);
+    if (!best) return null;
+
+    const tied = distinctChoices([best, ...rest]
+      .filter(match => match.intent.priority === best.intent.priority && match.score === best.score)
+      .map(match => match.intent));
+    if (tied.length > 1) {
+      return { kind: 'clarify', candidates: tied };
     }
+    return { kind: 'answer', intent: best.intent, confidence: 1 };
+  }
 
-    const formData = new FormData();
-    formData.append('file', audioBlob, 'audio.webm');
-    formData.append('model', 'whisper-1');
-    formData.append('language', 'en');
+  // Which offered intent the reply picks: by naming it, by position, or with a yes to a single option
+  private async resolveDisambiguation(
+    reply: string,
+    candidates: Intent[],
+    language: LanguageCode
+  ): Promise<{ intent: Intent; confidence: number } | 'declined' | null> {
+    if (candidates.length === 0) return null;
 
-    const response = await fetch('https://api.openai.com/v1/audio/transcriptions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${this.apiKeys.openaiKey}`,
-      },
-      body: formData,
-    });
+    const [named, ...alsoNamed] = rankIntents(reply, candidates);
+    if (named && !alsoNamed.some(match => match.score === named.score)) {
+      return { intent: named.intent, confidence: 1 };
+    }
 
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`Whisper API error: ${error}`);
+    if (this.settings.matching.method === 'embeddings' && candidates.length > 1) {
+      try {
+        const [best, runnerUp] = await classifyIntent(reply, candidates, this.embeddingContext);
+        const floor = this.settings.matching.confidenceThreshold - CLARIFY_MARGIN;
+        if (best && best.confidence >= floor && (!runnerUp || best.confidence - runnerUp.confidence >= TIE_MARGIN)) {
+          return { intent: best.intent, confidence: best.confidence };
+        }
+      } catch (error) {
+        console.error('Error classifying clarification:', error);
+      }
+    }
+
+    const picked = pickOrdinal(reply, candidates.length, language);
+    if (picked !== null) {
+      return { intent: candidates[picked], confidence: 1 };
+    }
+
+    // A refusal wins over any yes-word in it, and a reply that's both picks nothing
+    const answer = yesOrNo(reply, language);
+    if (answer === 'no') {
+      return 'declined';
+    }
+    if (candidates.length === 1 && answer === 'yes') {
+      return { intent: candidates[0], confidence: 1 };
     }
+    return null;
+  }
 
-    const result = await response.json();
-    return result.text;
+  private toolContext(options: ResponseOptions): ToolContext {
+    return {
+      apiKeys: this.apiKeys,
+      settings: this.settings,
+      language: options.language ?? DEFAULT_LANGUAGE,
+      onToolEvent: options.onToolEvent,
+    };
   }
 
-  // Generate AI response - Fast responses for 3 specific questions
-  async generateResponse(customerMessage: string, conversationHistory: Array<{role: string, content: string}>): Promise<string> {
-    console.log('Processing message:', customerMessage);
-    
-    // Check if this is one of our 3 supported questions for instant response
-    const detectedQuestion = this.detectQuestion(customerMessage);
-    if (detectedQuestion && this.predefinedResponses[detectedQuestion]) {
-      console.log(`Fast response for: ${detectedQuestion}`);
-      return this.predefinedResponses[detectedQuestion];
-    }
-
-    // For any other questions, guide them to the 3 supported topics
-    return "Hi! I can help you with three main topics: our business hours, return policy, or order tracking. Please ask me about one of those and I'll give you a quick answer!";
-  }
-
-  // Convert text to speech using ElevenLabs
-  async textToSpeech(text: string): Promise<ArrayBuffer> {
-    if (!this.apiKeys.elevenlabsKey) {
-      throw new Error('ElevenLabs API key not configured');
-    }
-
-    // Using Rachel voice (21m00Tcm4TlvDq8ikWAM) from ElevenLabs
-    const voiceId = '21m00Tcm4TlvDq8ikWAM';
-    
-    const response = await fetch(`https://api.elevenlabs.io/v1/text-to-speech/${voiceId}`, {
-      method: 'POST',
-      headers: {
-        'Accept': 'audio/mpeg',
-        'Content-Type': 'application/json',
-        'xi-api-key': this.apiKeys.elevenlabsKey,
-      },
-      body: JSON.stringify({
-        text: text,
-        model_id: 'eleven_monolingual_v1',
-        voice_settings: {
-          stability: 0.5,
-          similarity_boost: 0.5,
-        },
-      }),
-    });
-
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`ElevenLabs API error: ${error}`);
-    }
-
-    return response.arrayBuffer();
-  }
-
-  // Play audio from ArrayBuffer
-  async playAudio(audioBuffer: ArrayBuffer): Promise<void> {
-    const audioContext = new AudioContext();
-    const audioBufferSource = audioContext.createBufferSource();
-    
-    const decodedBuffer = await audioContext.decodeAudioData(audioBuffer);
-    audioBufferSource.buffer = decodedBuffer;
-    audioBufferSource.connect(audioContext.destination);
-    
-    return new Promise((resolve) => {
-      audioBufferSource.onended = () => resolve();
-      audioBufferSource.start();
-    });
+  // Hosted OpenAI needs a key; a self-hosted base URL may not
+  private isLanguageModelConfigured(): boolean {
+    return !!this.apiKeys.openaiKey || !!this.settings.llm.baseUrl;
+  }
+
+  // The uploaded-document passages most relevant to the message
+  private async retrieveDocumentation(customerMessage: string): Promise<RetrievedPassage[]> {
+    const documents = getDocuments();
+    if (documents.length === 0) return [];
+
+    try {
+      const passages = await retrievePassages(customerMessage, documents, this.embeddingContext);
+      console.log('Retrieved passages:', passages.map(passage => `${passage.chunk.id} (${passage.score.toFixed(2)})`));
+      return passages;
+    } catch (error) {
+      // Answering without the documents beats not answering
+      console.error('Error retrieving documentation:', error);
+      return [];
+    }
+  }
+
+  // Stream the chat-completions model's reply, with the system prompt and full conversation so far
+  private async *streamChat(
+    customerMessage: string,
+    conversationHistory: ChatMessage[],
+    options: ResponseOptions
+  ): AsyncGenerator<string> {
+    const { language = DEFAULT_LANGUAGE, onSources } = options;
+    let systemPrompt = `${this.settings.llm.systemPrompt}\n\nThe caller is speaking ${SUPPORTED_LANGUAGES[language].name}. Always reply in ${SUPPORTED_LANGUAGES[language].name}.`;
+    const passages = await this.retrieveDocumentation(customerMessage);
+    if (passages.length > 0) {
+      const excerpts = passages.map((passage, index) => `[${index + 1}] From "${passage.document.name}":\n${passage.chunk.text}`);
+      systemPrompt += "\n\nAnswer from these excerpts of the business's own documentation when they cover the question. " +
+        "Don't mention the excerpts themselves, and don't guess at details they leave out.\n\n" + excerpts.join('\n\n');
+      onSources?.(passages.map(passage => ({
+        kind: 'document',
+        documentId: passage.document.id,
+        documentName: passage.document.name,
+        chunkId: passage.chunk.id,
+        chunkIndex: passage.chunk.index,
+        confidence: passage.score,
+        excerpt: passage.chunk.text,
+      })));
+    }
+    const messages: ChatMessage[] = [
+      { role: 'system', content: systemPrompt },
+      ...conversationHistory,
+      { role: 'user', content: customerMessage },
+    ];
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKeys.openaiKey) {
+      headers['Authorization'] = `Bearer ${this.apiKeys.openaiKey}`;
+    }
+
+    // Each round either answers or asks for tools; tool results go back to the model for the next round
+    const baseUrl = trimTrailingSlash(this.settings.llm.baseUrl || DEFAULT_BASE_URLS.openai);
+    for (let round = 0; ; round++) {
+      const offerTools = this.settings.llm.enableTools && round < MAX_TOOL_ROUNDS;
+      const response = await fetch(`${baseUrl}/v1/chat/completions`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model: this.settings.llm.model || DEFAULT_AGENT_SETTINGS.llm.model,
+          messages,
+          temperature: 0.4,
+          max_tokens: 300,
+          stream: true,
+          ...(offerTools ? { tools: toolDefinitions() } : {}),
+        }),
+      });
+
+      if (!response.ok || !response.body) {
+        const error = await response.text();
+        throw new Error(`Chat completions API error: ${error}`);
+      }
+
+      // Tool calls stream in as fragments, keyed by their index
+      const toolCalls: ChatToolCall[] = [];
+      for await (const event of readServerSentEvents(response.body)) {
+        if (event === '[DONE]') break;
+        const delta = JSON.parse(event).choices?.[0]?.delta;
+        if (delta?.content) {
+          yield delta.content;
+        }
+        for (const fragment of delta?.tool_calls ?? []) {
+          const call = toolCalls[fragment.index] ??= { id: '', type: 'function', function: { name: '', arguments: '' } };
+          call.id = fragment.id ?? call.id;
+          call.function.name += fragment.function?.name ?? '';
+          call.function.arguments += fragment.function?.arguments ?? '';
+        }
+      }
+
+      if (toolCalls.length === 0) return;
+
+      messages.push({ role: 'assistant', content: '', tool_calls: toolCalls });
+      for (const call of toolCalls) {
+        const invocation = await invokeTool(call.function.name, parseToolArguments(call.function.arguments), this.toolContext(options));
+        messages.push({
+          role: 'tool',
+          tool_call_id: call.id,
+          content: JSON.stringify(invocation.error ? { error: invocation.error } : invocation.result ?? null),
+        });
+      }
+    }
+  }
+
+  // Convert text to speech using the agent's text-to-speech provider
+  async textToSpeech(text: string, language: LanguageCode = DEFAULT_LANGUAGE): Promise<SynthesizedSpeech> {
+    const provider = getTextToSpeechProvider(this.textToSpeechProviderId);
+    const format = negotiateAudioFormat(provider);
+    return provider.synthesize(text, format, { ...this.textToSpeechContext, language });
+  }
+
+  // Play synthesized speech through the shared playback engine
+  async playAudio(speech: SynthesizedSpeech): Promise<void> {
+    return audioPlayer.play(speech);
+  }
+}
+
+// Yield the data payload of each server-sent event in a streaming response
+async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (trimmed.startsWith('data:')) {
+          yield trimmed.slice(5).trim();
+        }
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+// Malformed JSON from the model becomes empty arguments, which the tool's schema then rejects
+function parseToolArguments(json: string): unknown {
+  try {
+    return JSON.parse(json || '{}');
+  } catch {
+    return {};
   }
 }
 
 // Helper function to get API keys from session storage
 export function getApiKeys(): ApiKeys {
   const saved = sessionStorage.getItem('ai-agent-api-keys');
+  const defaults: ApiKeys = { openaiKey: '', elevenlabsKey: '', deepgramKey: '', orderApiKey: '' };
   if (saved) {
-    return JSON.parse(saved);
+    return { ...defaults, ...JSON.parse(saved) };
   }
-  return { openaiKey: '', elevenlabsKey: '' };
-}
-
-// Helper function to record audio for a specified duration
-export function recordAudio(stream: MediaStream, duration: number = 3000): Promise<Blob> {
-  return new Promise((resolve, reject) => {
-    const mediaRecorder = new MediaRecorder(stream, {
-      mimeType: 'audio/webm;codecs=opus'
-    });
-    
-    const chunks: Blob[] = [];
-    
-    mediaRecorder.ondataavailable = (event) => {
-      if (event.data.size > 0) {
-        chunks.push(event.data);
-      }
-    };
-    
-    mediaRecorder.onstop = () => {
-      const blob = new Blob(chunks, { type: 'audio/webm' });
-      resolve(blob);
-    };
-    
-    mediaRecorder.onerror = (event) => {
-      reject(event);
-    };
-    
-    mediaRecorder.start();
-    
-    // Stop recording after specified duration
-    setTimeout(() => {
-      if (mediaRecorder.state === 'recording') {
-        mediaRecorder.stop();
-      }
-    }, duration);
-  });
+  return defaults;
 }
\ No newline at end of file
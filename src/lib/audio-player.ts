@@ -0,0 +1,421 @@
+// Playback engine for synthesized speech: one shared output context, starts on the first bytes
+
+import type { SynthesizedSpeech } from './tts-providers';
+
+export type PlaybackState = 'idle' | 'playing' | 'paused';
+
+export interface PlaybackEvent {
+  type: 'start' | 'progress' | 'pause' | 'resume' | 'stop' | 'end';
+  text: string;
+  // Seconds played so far, and total seconds when known (unknown while still streaming)
+  currentTime: number;
+  duration?: number;
+}
+
+type PlaybackListener = (event: PlaybackEvent) => void;
+
+// Controls for whatever is currently playing
+interface ActivePlayback {
+  text: string;
+  currentTime(): number;
+  duration(): number | undefined;
+  pause(): void;
+  resume(): void;
+  stop(): void;
+}
+
+const PROGRESS_INTERVAL_MS = 250;
+
+export class AudioPlaybackEngine {
+  private audioContext: AudioContext | null = null;
+  private mediaElement: HTMLAudioElement | null = null;
+  private listeners = new Set<PlaybackListener>();
+  private active: ActivePlayback | null = null;
+  private state: PlaybackState = 'idle';
+  private progressTimer: ReturnType<typeof setInterval> | null = null;
+
+  subscribe(listener: PlaybackListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getState(): PlaybackState {
+    return this.state;
+  }
+
+  // Play one utterance; resolves when it finishes or is stopped
+  async play(speech: SynthesizedSpeech): Promise<void> {
+    this.stop();
+
+    return new Promise((resolve, reject) => {
+      let playback: ActivePlayback;
+
+      const finish = (type: 'end' | 'stop') => {
+        if (this.active !== playback) return;
+        this.emit(type);
+        this.active = null;
+        this.setState('idle');
+        resolve();
+      };
+
+      const fail = (error: Error) => {
+        if (this.active === playback) {
+          this.active = null;
+          this.setState('idle');
+        }
+        reject(error);
+      };
+
+      try {
+        if (speech.format === 'speech') {
+          playback = this.playWithSpeechSynthesis(speech, () => finish('end'));
+        } else if (speech.stream && speech.format === 'mp3' && canStreamMp3()) {
+          playback = this.playWithMediaSource(speech, () => finish('end'), fail);
+        } else if (speech.stream && speech.format === 'pcm') {
+          playback = this.playPcmStream(speech, () => finish('end'), fail);
+        } else {
+          playback = this.playBuffered(speech, () => finish('end'), fail);
+        }
+      } catch (error) {
+        reject(error);
+        return;
+      }
+
+      const stop = playback.stop.bind(playback);
+      playback.stop = () => {
+        stop();
+        finish('stop');
+      };
+
+      this.active = playback;
+      this.setState('playing');
+      this.emit('start');
+    });
+  }
+
+  pause(): void {
+    if (!this.active || this.state !== 'playing') return;
+    this.active.pause();
+    this.setState('paused');
+    this.emit('pause');
+  }
+
+  resume(): void {
+    if (!this.active || this.state !== 'paused') return;
+    this.active.resume();
+    this.setState('playing');
+    this.emit('resume');
+  }
+
+  stop(): void {
+    this.active?.stop();
+  }
+
+  // Close the shared context, e.g. when the call ends
+  async dispose(): Promise<void> {
+    this.stop();
+    if (this.audioContext) {
+      await this.audioContext.close();
+      this.audioContext = null;
+      this.mediaElement = null;
+    }
+  }
+
+  private getAudioContext(): AudioContext {
+    if (!this.audioContext || this.audioContext.state === 'closed') {
+      this.audioContext = new AudioContext();
+      this.mediaElement = null;
+    }
+    if (this.audioContext.state === 'suspended') {
+      this.audioContext.resume();
+    }
+    return this.audioContext;
+  }
+
+  // A single media element routed through the shared context (a context can only wrap it once)
+  private getMediaElement(): HTMLAudioElement {
+    const audioContext = this.getAudioContext();
+    if (!this.mediaElement) {
+      this.mediaElement = new Audio();
+      audioContext.createMediaElementSource(this.mediaElement).connect(audioContext.destination);
+    }
+    return this.mediaElement;
+  }
+
+  private setState(state: PlaybackState) {
+    this.state = state;
+    if (state === 'playing' && !this.progressTimer) {
+      this.progressTimer = setInterval(() => this.emit('progress'), PROGRESS_INTERVAL_MS);
+    } else if (state === 'idle' && this.progressTimer) {
+      clearInterval(this.progressTimer);
+      this.progressTimer = null;
+    }
+  }
+
+  private emit(type: PlaybackEvent['type']) {
+    if (!this.active) return;
+    const event: PlaybackEvent = {
+      type,
+      text: this.active.text,
+      currentTime: this.active.currentTime(),
+      duration: this.active.duration(),
+    };
+    this.listeners.forEach(listener => listener(event));
+  }
+
+  // Browser speechSynthesis speaks the text itself
+  private playWithSpeechSynthesis(speech: SynthesizedSpeech, onEnded: () => void): ActivePlayback {
+    const utterance = new SpeechSynthesisUtterance(speech.text);
+    const voices = window.speechSynthesis.getVoices();
+    if (speech.language) {
+      utterance.lang = speech.language;
+    }
+    // Prefer the configured voice, else any installed voice for the reply's language
+    const voice = voices.find(v => v.name === speech.voice)
+      ?? (speech.language ? voices.find(v => v.lang.startsWith(speech.language.split('-')[0])) : undefined);
+    if (voice) {
+      utterance.voice = voice;
+    }
+
+    const startedAt = performance.now();
+    utterance.onend = onEnded;
+    utterance.onerror = onEnded;
+    window.speechSynthesis.speak(utterance);
+
+    return {
+      text: speech.text,
+      currentTime: () => (performance.now() - startedAt) / 1000,
+      duration: () => undefined,
+      pause: () => window.speechSynthesis.pause(),
+      resume: () => window.speechSynthesis.resume(),
+      stop: () => window.speechSynthesis.cancel(),
+    };
+  }
+
+  // MP3 streamed through MediaSource so playback starts on the first appended bytes
+  private playWithMediaSource(speech: SynthesizedSpeech, onEnded: () => void, onError: (error: Error) => void): ActivePlayback {
+    const audio = this.getMediaElement();
+    const mediaSource = new MediaSource();
+    const objectUrl = URL.createObjectURL(mediaSource);
+    const reader = speech.stream.getReader();
+    let stopped = false;
+
+    const cleanup = () => {
+      audio.onended = null;
+      audio.onerror = null;
+      URL.revokeObjectURL(objectUrl);
+    };
+
+    mediaSource.addEventListener('sourceopen', async () => {
+      const sourceBuffer = mediaSource.addSourceBuffer('audio/mpeg');
+      const appendChunk = (chunk: Uint8Array) => new Promise<void>((resolve) => {
+        sourceBuffer.addEventListener('updateend', () => resolve(), { once: true });
+        sourceBuffer.appendBuffer(chunk);
+      });
+
+      try {
+        let started = false;
+        while (!stopped) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          await appendChunk(value);
+          if (!started) {
+            started = true;
+            audio.play().catch(onError);
+          }
+        }
+        if (!stopped && mediaSource.readyState === 'open') {
+          mediaSource.endOfStream();
+        }
+      } catch (error) {
+        if (!stopped) {
+          cleanup();
+          onError(error as Error);
+        }
+      }
+    }, { once: true });
+
+    audio.onended = () => {
+      cleanup();
+      onEnded();
+    };
+    audio.onerror = () => {
+      cleanup();
+      onError(new Error('Audio playback error'));
+    };
+    audio.src = objectUrl;
+
+    return {
+      text: speech.text,
+      currentTime: () => audio.currentTime,
+      duration: () => (Number.isFinite(audio.duration) ? audio.duration : undefined),
+      pause: () => audio.pause(),
+      resume: () => {
+        audio.play().catch(onError);
+      },
+      stop: () => {
+        stopped = true;
+        reader.cancel().catch(() => undefined);
+        audio.pause();
+        cleanup();
+        audio.removeAttribute('src');
+        audio.load();
+      },
+    };
+  }
+
+  // Raw PCM decoded chunk by chunk and scheduled back to back on the shared context
+  private playPcmStream(speech: SynthesizedSpeech, onEnded: () => void, onError: (error: Error) => void): ActivePlayback {
+    const audioContext = this.getAudioContext();
+    const sampleRate = speech.sampleRate || 24000;
+    const reader = speech.stream.getReader();
+    const sources = new Set<AudioBufferSourceNode>();
+    const startedAt = audioContext.currentTime;
+    let nextStartTime = startedAt;
+    let streamDone = false;
+    let stopped = false;
+    let leftover: Uint8Array | null = null;
+
+    const checkEnded = () => {
+      if (streamDone && sources.size === 0 && !stopped) {
+        onEnded();
+      }
+    };
+
+    (async () => {
+      try {
+        while (!stopped) {
+          const { done, value } = await reader.read();
+          if (done) break;
+
+          // Samples are 2 bytes; carry an odd trailing byte over to the next chunk
+          let bytes = value;
+          if (leftover) {
+            bytes = new Uint8Array(leftover.length + value.length);
+            bytes.set(leftover);
+            bytes.set(value, leftover.length);
+            leftover = null;
+          }
+          if (bytes.length % 2 === 1) {
+            leftover = bytes.slice(bytes.length - 1);
+            bytes = bytes.slice(0, bytes.length - 1);
+          }
+          if (bytes.length === 0) continue;
+
+          const buffer = decodePcm16(audioContext, bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength), sampleRate);
+          const source = audioContext.createBufferSource();
+          source.buffer = buffer;
+          source.connect(audioContext.destination);
+          source.onended = () => {
+            sources.delete(source);
+            checkEnded();
+          };
+
+          nextStartTime = Math.max(nextStartTime, audioContext.currentTime);
+          source.start(nextStartTime);
+          nextStartTime += buffer.duration;
+          sources.add(source);
+        }
+        streamDone = true;
+        checkEnded();
+      } catch (error) {
+        if (!stopped) {
+          onError(error as Error);
+        }
+      }
+    })();
+
+    return {
+      text: speech.text,
+      currentTime: () => Math.max(0, audioContext.currentTime - startedAt),
+      duration: () => (streamDone ? nextStartTime - startedAt : undefined),
+      pause: () => {
+        audioContext.suspend();
+      },
+      resume: () => {
+        audioContext.resume();
+      },
+      stop: () => {
+        stopped = true;
+        reader.cancel().catch(() => undefined);
+        sources.forEach(source => source.stop());
+        sources.clear();
+        if (audioContext.state === 'suspended') {
+          audioContext.resume();
+        }
+      },
+    };
+  }
+
+  // Fallback: wait for the whole payload, then decode it on the shared context
+  private playBuffered(speech: SynthesizedSpeech, onEnded: () => void, onError: (error: Error) => void): ActivePlayback {
+    const audioContext = this.getAudioContext();
+    let source: AudioBufferSourceNode | null = null;
+    let startedAt = 0;
+    let duration: number | undefined;
+    let stopped = false;
+
+    (async () => {
+      try {
+        const data = speech.data ?? await new Response(speech.stream).arrayBuffer();
+        const buffer = speech.format === 'pcm'
+          ? decodePcm16(audioContext, data, speech.sampleRate || 24000)
+          : await audioContext.decodeAudioData(data);
+        if (stopped) return;
+
+        source = audioContext.createBufferSource();
+        source.buffer = buffer;
+        source.connect(audioContext.destination);
+        source.onended = () => {
+          if (!stopped) onEnded();
+        };
+        duration = buffer.duration;
+        startedAt = audioContext.currentTime;
+        source.start();
+      } catch (error) {
+        if (!stopped) {
+          onError(error as Error);
+        }
+      }
+    })();
+
+    return {
+      text: speech.text,
+      currentTime: () => (source ? Math.max(0, audioContext.currentTime - startedAt) : 0),
+      duration: () => duration,
+      pause: () => {
+        audioContext.suspend();
+      },
+      resume: () => {
+        audioContext.resume();
+      },
+      stop: () => {
+        stopped = true;
+        source?.stop();
+        if (audioContext.state === 'suspended') {
+          audioContext.resume();
+        }
+      },
+    };
+  }
+}
+
+function canStreamMp3(): boolean {
+  return typeof MediaSource !== 'undefined' && MediaSource.isTypeSupported('audio/mpeg');
+}
+
+// Decode raw 16-bit little-endian mono PCM into an AudioBuffer
+function decodePcm16(audioContext: AudioContext, data: ArrayBuffer, sampleRate: number): AudioBuffer {
+  const samples = new Int16Array(data, 0, Math.floor(data.byteLength / 2));
+  const buffer = audioContext.createBuffer(1, samples.length, sampleRate);
+  const channel = buffer.getChannelData(0);
+  for (let i = 0; i < samples.length; i++) {
+    channel[i] = samples[i] / 32768;
+  }
+  return buffer;
+}
+
+// Shared by every AIServices instance so only one output context ever exists
+export const audioPlayer = new AudioPlaybackEngine();
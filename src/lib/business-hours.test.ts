@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import {
+  BusinessHours,
+  callGreeting,
+  commonHolidays,
+  DEFAULT_BUSINESS_HOURS,
+  describeOpeningStatus,
+  getOpeningStatus,
+  hoursOn,
+  zonedNow,
+} from './business-hours';
+
+// Thanksgiving week 2030 in New York, which is on Eastern Standard Time (UTC-5) then
+const hours: BusinessHours = { ...DEFAULT_BUSINESS_HOURS, exceptions: commonHolidays(2030) };
+const newYork = (date: string, time: string) => new Date(`${date}T${time}:00-05:00`);
+
+describe('commonHolidays', () => {
+  it('puts Thanksgiving on the fourth Thursday of November and Black Friday after it', () => {
+    expect(commonHolidays(2026).map(holiday => holiday.date)).toEqual(['2026-01-01', '2026-11-26', '2026-11-27', '2026-12-24', '2026-12-25']);
+    expect(commonHolidays(2027).find(holiday => holiday.name === 'Thanksgiving')?.date).toBe('2027-11-25');
+    expect(commonHolidays(2030).find(holiday => holiday.name === 'Black Friday')?.date).toBe('2030-11-29');
+  });
+});
+
+describe('zonedNow', () => {
+  it('reads the date and time of day in the business timezone', () => {
+    const now = new Date('2030-11-27T03:30:00Z');
+    expect(zonedNow('America/New_York', now)).toEqual({ date: '2030-11-26', minutes: 22 * 60 + 30 });
+    expect(zonedNow('Asia/Tokyo', now)).toEqual({ date: '2030-11-27', minutes: 12 * 60 + 30 });
+  });
+});
+
+describe('hoursOn', () => {
+  it('lets holidays and special hours override the weekly schedule', () => {
+    expect(hoursOn(hours, '2030-11-27')).toEqual({ open: '09:00', close: '18:00' });
+    expect(hoursOn(hours, '2030-11-28')).toBeNull();
+    expect(hoursOn(hours, '2030-11-29')).toEqual({ open: '08:00', close: '20:00' });
+    expect(hoursOn(hours, '2030-11-30')).toBeNull();
+  });
+});
+
+describe('getOpeningStatus', () => {
+  it('is open from opening time up to, but not including, closing time', () => {
+    expect(getOpeningStatus(hours, newYork('2030-11-27', '09:00'))).toEqual({ open: true, closesAt: '18:00' });
+    expect(getOpeningStatus(hours, newYork('2030-11-27', '18:00')).open).toBe(false);
+  });
+
+  it('finds the next opening past holidays', () => {
+    expect(getOpeningStatus(hours, newYork('2030-11-27', '18:00'))).toEqual({
+      open: false,
+      holiday: undefined,
+      nextOpen: { date: '2030-11-29', time: '08:00', daysAhead: 2 },
+    });
+    expect(getOpeningStatus(hours, newYork('2030-11-28', '12:00'))).toEqual({
+      open: false,
+      holiday: 'Thanksgiving',
+      nextOpen: { date: '2030-11-29', time: '08:00', daysAhead: 1 },
+    });
+    expect(getOpeningStatus(hours, newYork('2030-11-27', '07:00')).nextOpen).toEqual({ date: '2030-11-27', time: '09:00', daysAhead: 0 });
+  });
+
+  it('stops looking when nothing opens in the next two weeks', () => {
+    const neverOpen: BusinessHours = { ...hours, weekly: { 0: null, 1: null, 2: null, 3: null, 4: null, 5: null, 6: null }, exceptions: [] };
+    expect(getOpeningStatus(neverOpen, newYork('2030-11-27', '12:00')).nextOpen).toBeUndefined();
+    expect(describeOpeningStatus(neverOpen, 'en', newYork('2030-11-27', '12:00'))).toBe("We're closed right now.");
+  });
+
+  it('treats hours that run past midnight as closed', () => {
+    const lateNight: BusinessHours = { ...hours, weekly: { ...hours.weekly, 3: { open: '22:00', close: '02:00' } } };
+    expect(getOpeningStatus(lateNight, newYork('2030-11-27', '23:00')).open).toBe(false);
+  });
+});
+
+describe('describeOpeningStatus', () => {
+  it('says when the business closes or reopens', () => {
+    expect(describeOpeningStatus(hours, 'en', newYork('2030-11-27', '12:00'))).toBe("We're open now until 6 PM Eastern Time.");
+    expect(describeOpeningStatus(hours, 'en', newYork('2030-11-28', '12:00'))).toBe("We're closed for Thanksgiving; we reopen Friday at 8 AM.");
+    expect(describeOpeningStatus(hours, 'en', newYork('2030-11-27', '07:00'))).toBe("We're closed right now; we open today at 9 AM.");
+    expect(describeOpeningStatus(hours, 'de', newYork('2030-11-28', '12:00'))).toBe('Wegen Thanksgiving haben wir geschlossen; wir öffnen am Freitag wieder um 8 Uhr.');
+  });
+
+  it('switches the call greeting to the after-hours one while closed', () => {
+    expect(callGreeting(hours, newYork('2030-11-27', '12:00'))).toBe(hours.greeting);
+    expect(callGreeting(hours, newYork('2030-11-28', '12:00')))
+      .toBe("Hello! Thank you for calling. We're closed for Thanksgiving; we reopen Friday at 8 AM. I can still help with orders, returns and general questions.");
+  });
+});
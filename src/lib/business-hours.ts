@@ -0,0 +1,306 @@
+// Business hours: a weekly schedule in the business's timezone plus holidays and one-off exceptions, persisted in localStorage
+
+import { LanguageCode, LocalizedText, localize, SUPPORTED_LANGUAGES } from './languages';
+import { fillTemplate } from './utils';
+
+const BUSINESS_HOURS_STORAGE_KEY = 'ai-agent-business-hours';
+
+// How far ahead to look for the next opening, so a schedule with no open days can't loop forever
+const MAX_DAYS_AHEAD = 14;
+
+// 24-hour "HH:MM" times, local to the business's timezone; close has to be later than open on the same day, since hours
+// that run past midnight aren't supported and count as closed
+export interface DayHours {
+  open: string;
+  close: string;
+}
+
+// 0 is Sunday, as in Date.getDay()
+export type Weekday = 0 | 1 | 2 | 3 | 4 | 5 | 6;
+
+// A date that doesn't follow the weekly schedule: a holiday (hours null) or special hours
+export interface HoursException {
+  // "YYYY-MM-DD"
+  date: string;
+  name: string;
+  hours: DayHours | null;
+}
+
+export interface BusinessHours {
+  // IANA name, e.g. "America/New_York"
+  timezone: string;
+  // null means closed all day
+  weekly: Record<Weekday, DayHours | null>;
+  exceptions: HoursException[];
+  // Spoken when a call starts; {openingStatus} works in both
+  greeting: string;
+  // Used instead of the greeting while closed; blank keeps the usual greeting
+  afterHoursGreeting: string;
+}
+
+export interface OpeningStatus {
+  open: boolean;
+  // While open
+  closesAt?: string;
+  // While closed for a holiday
+  holiday?: string;
+  // While closed, when the next opening is within MAX_DAYS_AHEAD
+  nextOpen?: { date: string; time: string; daysAhead: number };
+}
+
+// Timezones offered in the editor; a saved zone that isn't listed still works
+export const COMMON_TIMEZONES = [
+  'America/New_York',
+  'America/Chicago',
+  'America/Denver',
+  'America/Phoenix',
+  'America/Los_Angeles',
+  'America/Anchorage',
+  'Pacific/Honolulu',
+  'America/Toronto',
+  'America/Mexico_City',
+  'Europe/London',
+  'Europe/Madrid',
+  'Europe/Paris',
+  'Europe/Berlin',
+  'Asia/Tokyo',
+  'Australia/Sydney',
+];
+
+// Calendar dates are handled as "YYYY-MM-DD" strings at UTC midnight, so no local timezone leaks in
+const parseDate = (date: string) => new Date(`${date}T00:00:00Z`);
+
+export function addDays(date: string, days: number): string {
+  const next = parseDate(date);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().slice(0, 10);
+}
+
+// The usual US retail holidays in a year, worked out from the year so the defaults don't go stale
+export function commonHolidays(year: number): HoursException[] {
+  // Fourth Thursday of November
+  const firstWeekday = new Date(Date.UTC(year, 10, 1)).getUTCDay();
+  const thanksgiving = `${year}-11-${1 + ((4 - firstWeekday + 7) % 7) + 21}`;
+  return [
+    { date: `${year}-01-01`, name: "New Year's Day", hours: null },
+    { date: thanksgiving, name: 'Thanksgiving', hours: null },
+    { date: addDays(thanksgiving, 1), name: 'Black Friday', hours: { open: '08:00', close: '20:00' } },
+    { date: `${year}-12-24`, name: 'Christmas Eve', hours: { open: '09:00', close: '13:00' } },
+    { date: `${year}-12-25`, name: 'Christmas Day', hours: null },
+  ];
+}
+
+export const DEFAULT_BUSINESS_HOURS: BusinessHours = {
+  timezone: 'America/New_York',
+  weekly: {
+    0: null,
+    1: { open: '09:00', close: '18:00' },
+    2: { open: '09:00', close: '18:00' },
+    3: { open: '09:00', close: '18:00' },
+    4: { open: '09:00', close: '18:00' },
+    5: { open: '09:00', close: '18:00' },
+    6: null,
+  },
+  exceptions: [...commonHolidays(new Date().getFullYear()), ...commonHolidays(new Date().getFullYear() + 1)],
+  greeting: 'Hello! Thank you for calling our customer service. How can I help you today?',
+  afterHoursGreeting:
+    'Hello! Thank you for calling. {openingStatus} I can still help with orders, returns and general questions.',
+};
+
+// Helper function to get the business hours from localStorage, filling in defaults
+export function getBusinessHours(): BusinessHours {
+  const saved = localStorage.getItem(BUSINESS_HOURS_STORAGE_KEY);
+  return saved ? { ...DEFAULT_BUSINESS_HOURS, ...JSON.parse(saved) } : DEFAULT_BUSINESS_HOURS;
+}
+
+export function saveBusinessHours(hours: BusinessHours): void {
+  localStorage.setItem(BUSINESS_HOURS_STORAGE_KEY, JSON.stringify(hours));
+}
+
+export function resetBusinessHours(): void {
+  localStorage.removeItem(BUSINESS_HOURS_STORAGE_KEY);
+}
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// The date and time of day it is at the business right now
+export function zonedNow(timezone: string, now: Date = new Date()): { date: string; minutes: number } {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(now).map(part => [part.type, part.value])
+  );
+  return { date: `${parts.year}-${parts.month}-${parts.day}`, minutes: Number(parts.hour) * 60 + Number(parts.minute) };
+}
+
+export function findException(hours: BusinessHours, date: string): HoursException | undefined {
+  return hours.exceptions.find(exception => exception.date === date);
+}
+
+// Opening hours on a date, after exceptions; null when closed all day
+export function hoursOn(hours: BusinessHours, date: string): DayHours | null {
+  const exception = findException(hours, date);
+  return exception ? exception.hours : hours.weekly[parseDate(date).getUTCDay() as Weekday];
+}
+
+export function getOpeningStatus(hours: BusinessHours, now: Date = new Date()): OpeningStatus {
+  const { date, minutes } = zonedNow(hours.timezone, now);
+  const today = hoursOn(hours, date);
+
+  if (today && minutes >= toMinutes(today.open) && minutes < toMinutes(today.close)) {
+    return { open: true, closesAt: today.close };
+  }
+
+  const exception = findException(hours, date);
+  const status: OpeningStatus = { open: false, holiday: exception && !exception.hours ? exception.name : undefined };
+  if (today && minutes < toMinutes(today.open)) {
+    status.nextOpen = { date, time: today.open, daysAhead: 0 };
+    return status;
+  }
+  for (let daysAhead = 1; daysAhead <= MAX_DAYS_AHEAD; daysAhead++) {
+    const nextDate = addDays(date, daysAhead);
+    const next = hoursOn(hours, nextDate);
+    if (next) {
+      status.nextOpen = { date: nextDate, time: next.open, daysAhead };
+      break;
+    }
+  }
+  return status;
+}
+
+export function isOpenNow(hours: BusinessHours = getBusinessHours(), now: Date = new Date()): boolean {
+  return getOpeningStatus(hours, now).open;
+}
+
+// "6 PM", "9:30 AM", "18 Uhr" — times the way they're said aloud
+export function formatSpokenTime(time: string, language: LanguageCode): string {
+  const [hours, minutes] = time.split(':').map(Number);
+  return new Date(Date.UTC(2000, 0, 1, hours, minutes)).toLocaleTimeString(SUPPORTED_LANGUAGES[language].locale, {
+    timeZone: 'UTC',
+    hour: 'numeric',
+    minute: minutes ? '2-digit' : undefined,
+  }).replace(/^0(\d)/, '$1');
+}
+
+export function formatWeekday(date: string, language: LanguageCode): string {
+  return parseDate(date).toLocaleDateString(SUPPORTED_LANGUAGES[language].locale, { timeZone: 'UTC', weekday: 'long' });
+}
+
+// "Eastern Time" rather than "EST", so the same name is right all year
+export function describeTimezone(timezone: string, language: LanguageCode): string {
+  const parts = new Intl.DateTimeFormat(SUPPORTED_LANGUAGES[language].locale, {
+    timeZone: timezone,
+    timeZoneName: 'longGeneric' as Intl.DateTimeFormatOptions['timeZoneName'],
+  }).formatToParts(new Date());
+  return parts.find(part => part.type === 'timeZoneName')?.value ?? timezone;
+}
+
+const statusPhrases: Record<'openUntil' | 'closed' | 'closedFor' | 'reopenToday' | 'reopenOn', LocalizedText> = {
+  openUntil: {
+    en: "We're open now until {time} {timezone}.",
+    es: 'Ahora estamos abiertos hasta las {time}, {timezone}.',
+    fr: "Nous sommes ouverts jusqu'à {time}, {timezone}.",
+    de: 'Wir haben jetzt bis {time} geöffnet, {timezone}.',
+  },
+  closed: {
+    en: "We're closed right now",
+    es: 'Ahora mismo estamos cerrados',
+    fr: 'Nous sommes fermés pour le moment',
+    de: 'Wir haben gerade geschlossen',
+  },
+  closedFor: {
+    en: "We're closed for {holiday}",
+    es: 'Hoy cerramos por {holiday}',
+    fr: 'Nous sommes fermés pour {holiday}',
+    de: 'Wegen {holiday} haben wir geschlossen',
+  },
+  reopenToday: {
+    en: '; we open today at {time}.',
+    es: '; abrimos hoy a las {time}.',
+    fr: "; nous ouvrons aujourd'hui à {time}.",
+    de: '; wir öffnen heute um {time}.',
+  },
+  reopenOn: {
+    en: '; we reopen {day} at {time}.',
+    es: '; volvemos a abrir el {day} a las {time}.',
+    fr: '; nous rouvrons {day} à {time}.',
+    de: '; wir öffnen am {day} wieder um {time}.',
+  },
+};
+
+// "We're open now until 6 PM Eastern Time." / "We're closed for Thanksgiving; we reopen Friday at 9 AM."
+export function describeOpeningStatus(hours: BusinessHours, language: LanguageCode, now: Date = new Date()): string {
+  const status = getOpeningStatus(hours, now);
+  if (status.open) {
+    return fillTemplate(localize(statusPhrases.openUntil, language), {
+      time: formatSpokenTime(status.closesAt, language),
+      timezone: describeTimezone(hours.timezone, language),
+    });
+  }
+
+  const closed = status.holiday
+    ? fillTemplate(localize(statusPhrases.closedFor, language), { holiday: status.holiday })
+    : localize(statusPhrases.closed, language);
+  const { nextOpen } = status;
+  if (!nextOpen) {
+    return `${closed}.`;
+  }
+  return closed + fillTemplate(localize(nextOpen.daysAhead === 0 ? statusPhrases.reopenToday : statusPhrases.reopenOn, language), {
+    day: formatWeekday(nextOpen.date, language),
+    time: formatSpokenTime(nextOpen.time, language),
+  });
+}
+
+const scheduleWords: Record<'and' | 'through' | 'to' | 'closed', LocalizedText> = {
+  and: { en: 'and', es: 'y', fr: 'et', de: 'und' },
+  through: { en: 'through', es: 'a', fr: 'au', de: 'bis' },
+  to: { en: 'to', es: 'a', fr: 'à', de: 'bis' },
+  closed: { en: 'closed', es: 'cerrado', fr: 'fermé', de: 'geschlossen' },
+};
+
+// The weekly schedule read out Monday first, with days that share hours grouped: "Monday through Friday, 9 AM to 6 PM; ..."
+export function describeWeeklyHours(hours: BusinessHours, language: LanguageCode): string {
+  // A week of dates starting on a Monday, just to name the days
+  const monday = '2024-01-01';
+  const days = ([1, 2, 3, 4, 5, 6, 0] as Weekday[]).map((weekday, index) => ({
+    name: formatWeekday(addDays(monday, index), language),
+    hours: hours.weekly[weekday],
+  }));
+
+  const describeHours = (day: DayHours | null) => day
+    ? `${formatSpokenTime(day.open, language)} ${localize(scheduleWords.to, language)} ${formatSpokenTime(day.close, language)}`
+    : localize(scheduleWords.closed, language);
+
+  const groups: Array<{ days: string[]; hours: string }> = [];
+  for (const day of days) {
+    const described = describeHours(day.hours);
+    const previous = groups[groups.length - 1];
+    if (previous && previous.hours === described) {
+      previous.days.push(day.name);
+    } else {
+      groups.push({ days: [day.name], hours: described });
+    }
+  }
+
+  const describeDays = (names: string[]) => {
+    if (names.length === 1) return names[0];
+    const joiner = localize(names.length === 2 ? scheduleWords.and : scheduleWords.through, language);
+    return `${names[0]} ${joiner} ${names[names.length - 1]}`;
+  };
+  return groups.map(group => `${describeDays(group.days)}, ${group.hours}`).join('; ');
+}
+
+// The greeting for a new call, switching to the after-hours one while closed
+export function callGreeting(hours: BusinessHours = getBusinessHours(), now: Date = new Date()): string {
+  const greeting = !isOpenNow(hours, now) && hours.afterHoursGreeting.trim() ? hours.afterHoursGreeting : hours.greeting;
+  return fillTemplate(greeting, { openingStatus: describeOpeningStatus(hours, 'en', now) });
+}
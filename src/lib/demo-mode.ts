@@ -0,0 +1,54 @@
+// Offline demo mode: scripted customer lines and a deterministic stand-in for the LLM
+
+import type { ChatMessage } from './ai-services';
+
+// Pre-recorded customer utterances that walk through every supported path
+export const DEMO_SCRIPT: string[] = [
+  'Hi, what are your hours?',
+  "What's your return policy?",
+  "It's order 100198.",
+  'sam at example dot com',
+  'It arrived two weeks ago.',
+  "Yes, it's never been opened.",
+  'Yes, go ahead.',
+  'Where is my package? How do I track my order?',
+  "It's order 100234.",
+  'jane at example dot com',
+  "Yes, that's right.",
+  'Do you sell gift cards?',
+  'Thanks, that was helpful!',
+  'Actually, can I talk to a real person?',
+];
+
+const DEMO_TOKEN_DELAY_MS = 40;
+
+const demoReplies: Array<{ pattern: RegExp; reply: string }> = [
+  { pattern: /\b(hi|hello|hey|good (morning|afternoon|evening))\b/i, reply: "Hello! I'm the demo agent. Ask me about our hours, returns or order tracking." },
+  { pattern: /\b(thanks|thank you|helpful)\b/i, reply: "You're welcome! Is there anything else I can help you with today?" },
+  { pattern: /\b(bye|goodbye|that's all)\b/i, reply: 'Thanks for calling. Have a wonderful day!' },
+];
+
+// False when the demo agent would only have its catch-all reply, the demo's version of a fallback
+export function hasDemoReply(customerMessage: string): boolean {
+  return demoReplies.some(({ pattern }) => pattern.test(customerMessage));
+}
+
+// Deterministic reply so demos and CI runs always produce the same transcript
+export function getDemoReply(customerMessage: string, conversationHistory: ChatMessage[]): string {
+  const match = demoReplies.find(({ pattern }) => pattern.test(customerMessage));
+  if (match) {
+    return match.reply;
+  }
+
+  const turn = conversationHistory.filter(message => message.role === 'user').length + 1;
+  return `This is demo mode, so there's no live language model behind me. On turn ${turn} you asked: "${customerMessage.trim()}". With real credentials, I'd answer that from your knowledge base.`;
+}
+
+// Stream the demo reply word by word, like a chat-completions stream would
+export async function* streamDemoReply(customerMessage: string, conversationHistory: ChatMessage[]): AsyncGenerator<string> {
+  const words = getDemoReply(customerMessage, conversationHistory).match(/\S+\s*/g) ?? [];
+  for (const word of words) {
+    await new Promise(resolve => setTimeout(resolve, DEMO_TOKEN_DELAY_MS));
+    yield word;
+  }
+}
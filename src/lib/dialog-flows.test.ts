@@ -0,0 +1,50 @@
+import { describe, expect, it, vi } from 'vitest';
+import { continueFlow, DialogFlow, FlowContext, slotExtractors } from './dialog-flows';
+import { ActiveFlow } from './dialog';
+
+const testFlow = (run: DialogFlow['run']): DialogFlow => ({
+  id: 'test',
+  label: 'Test',
+  slots: [{
+    name: 'orderNumber',
+    label: { en: 'order number' },
+    prompt: { en: "What's your order number?" },
+    reprompt: { en: 'Sorry, what was the order number?' },
+    extract: slotExtractors.orderNumber,
+  }],
+  run,
+});
+
+const awaitingConfirmation: ActiveFlow = { kind: 'flow', flowId: 'test', slots: { orderNumber: '100198' }, awaiting: null, attempts: 0 };
+const context = { language: 'en' } as FlowContext;
+
+describe('continueFlow confirmation', () => {
+  it('runs the flow on a plain yes', async () => {
+    const run = vi.fn().mockResolvedValue('Done.');
+    const turn = await continueFlow(testFlow(run), awaitingConfirmation, 'yes', context);
+    expect(run).toHaveBeenCalledWith({ orderNumber: '100198' }, context);
+    expect(turn).toEqual({ reply: 'Done.', dialog: null });
+  });
+
+  it.each(["no, that's not right", 'not correct', "That's not correct", 'nope, wrong order'])('starts over on "%s"', async (reply) => {
+    const run = vi.fn();
+    const turn = await continueFlow(testFlow(run), awaitingConfirmation, reply, context);
+    expect(run).not.toHaveBeenCalled();
+    expect(turn.dialog).toMatchObject({ slots: {}, awaiting: 'orderNumber' });
+  });
+
+  it('asks again when the reply says both yes and no', async () => {
+    const run = vi.fn();
+    const turn = await continueFlow(testFlow(run), awaitingConfirmation, 'yes... no, wait', context);
+    expect(run).not.toHaveBeenCalled();
+    expect(turn.dialog).toEqual(awaitingConfirmation);
+  });
+});
+
+describe('slotExtractors.itemCondition', () => {
+  it('reads negated yes-words as no', () => {
+    expect(slotExtractors.itemCondition("no, that's not right", 'en')).toBe('no');
+    expect(slotExtractors.itemCondition('das stimmt nicht', 'de')).toBe('no');
+    expect(slotExtractors.itemCondition('yes', 'en')).toBe('yes');
+  });
+});
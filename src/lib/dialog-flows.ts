@@ -0,0 +1,408 @@
+// Dialog flows: gather required slots across turns, confirm them, then run an action
+
+import { invokeTool, ToolContext } from './tools';
+import { describeMissingOrder, describeOrder, formatSpokenDate, Order } from './orders';
+import { ActiveFlow, containsAny, DialogState, isCancellation, yesOrNo } from './dialog';
+import { LanguageCode, LocalizedText, localize } from './languages';
+
+export interface SlotDefinition {
+  name: string;
+  // How the slot is named when confirming, e.g. "order number"
+  label: LocalizedText;
+  prompt: LocalizedText;
+  // Asked again when the answer didn't contain a valid value
+  reprompt: LocalizedText;
+  // The slot's value in what the customer said, or null when there isn't a valid one
+  extract(text: string, language: LanguageCode): string | null;
+  // How the value is read back when confirming; defaults to the value itself
+  describe?(value: string, language: LanguageCode): string;
+  // False for slots that shouldn't be filled from the message that started the flow, like yes/no answers
+  prefill?: boolean;
+}
+
+// Flows run with the same context as tools, so their actions can invoke them
+export type FlowContext = ToolContext;
+
+export interface DialogFlow {
+  id: string;
+  label: string;
+  slots: SlotDefinition[];
+  // Runs once every slot is filled and confirmed; resolves to what the agent says
+  run(slots: Record<string, string>, context: FlowContext): Promise<string>;
+}
+
+// What the agent says this turn, and the state the next turn picks up from
+export interface FlowTurn {
+  reply: string;
+  dialog: DialogState;
+}
+
+// Invalid answers to one slot before the flow gives up
+const MAX_SLOT_ATTEMPTS = 3;
+
+const flowMessages: Record<'cancelled' | 'confirm' | 'retry' | 'giveUp' | 'failed', LocalizedText> = {
+  cancelled: {
+    en: "No problem, I've cancelled that. Is there anything else I can help with?",
+    es: 'Sin problema, lo he cancelado. ¿Hay algo más en lo que pueda ayudarle?',
+    fr: "Pas de problème, j'ai annulé. Puis-je vous aider pour autre chose ?",
+    de: 'Kein Problem, ich habe das abgebrochen. Kann ich sonst noch helfen?',
+  },
+  confirm: {
+    en: 'Just to confirm, {summary}. Is that right?',
+    es: 'Para confirmar: {summary}. ¿Es correcto?',
+    fr: 'Pour confirmer : {summary}. Est-ce exact ?',
+    de: 'Zur Bestätigung: {summary}. Ist das richtig?',
+  },
+  retry: {
+    en: "Okay, let's try that again.",
+    es: 'De acuerdo, intentémoslo de nuevo.',
+    fr: "D'accord, recommençons.",
+    de: 'Gut, versuchen wir es noch einmal.',
+  },
+  giveUp: {
+    en: "I'm sorry, I still couldn't catch that, so let's leave it for now. Is there anything else I can help with?",
+    es: 'Lo siento, sigo sin entenderlo, así que lo dejaremos por ahora. ¿Hay algo más en lo que pueda ayudarle?',
+    fr: "Désolé, je n'arrive toujours pas à le comprendre, laissons cela pour le moment. Puis-je vous aider pour autre chose ?",
+    de: 'Entschuldigung, ich habe es immer noch nicht verstanden, lassen wir es vorerst. Kann ich sonst noch helfen?',
+  },
+  failed: {
+    en: 'Sorry, something went wrong on our side. Please try again in a moment.',
+    es: 'Lo siento, algo ha fallado por nuestra parte. Inténtelo de nuevo en un momento.',
+    fr: "Désolé, un problème est survenu de notre côté. Veuillez réessayer dans un instant.",
+    de: 'Entschuldigung, bei uns ist etwas schiefgelaufen. Bitte versuchen Sie es gleich noch einmal.',
+  },
+};
+
+const flows = new Map<string, DialogFlow>();
+
+export function registerDialogFlow(flow: DialogFlow): void {
+  flows.set(flow.id, flow);
+}
+
+export function getDialogFlow(id: string): DialogFlow | undefined {
+  return flows.get(id);
+}
+
+export function listDialogFlows(): DialogFlow[] {
+  return Array.from(flows.values());
+}
+
+const spokenDigits: Record<string, string> = {
+  zero: '0', one: '1', two: '2', three: '3', four: '4', five: '5', six: '6', seven: '7', eight: '8', nine: '9',
+};
+
+// "two weeks ago" -> "2 weeks ago"
+function spokenDigitsToNumbers(text: string): string {
+  return text.replace(/\b(zero|one|two|three|four|five|six|seven|eight|nine)\b/gi, word => spokenDigits[word.toLowerCase()]);
+}
+
+// "one two three" -> "123", and digits read out in groups ("12 34 5") joined up
+function joinSpokenDigits(text: string): string {
+  return spokenDigitsToNumbers(text).replace(/(\d)[\s-]+(?=\d)/g, '$1');
+}
+
+// Value extractors for common slot types
+export const slotExtractors = {
+  orderNumber(text: string): string | null {
+    const match = joinSpokenDigits(text).match(/\b(?:[a-z]{2,3}-?)?\d{5,10}\b/i);
+    return match ? match[0].toUpperCase() : null;
+  },
+  // Understands the spoken form too: "jane at example dot com"
+  email(text: string): string | null {
+    const written = text.replace(/\s+at\s+/gi, '@').replace(/\s+dot\s+/gi, '.');
+    const match = written.match(/[\w.+-]+@[\w-]+(?:\.[\w-]+)+/);
+    return match ? match[0].toLowerCase() : null;
+  },
+  zipCode(text: string): string | null {
+    const match = joinSpokenDigits(text).match(/\b\d{5}(?:-\d{4})?\b/);
+    return match ? match[0] : null;
+  },
+  // A past date as "YYYY-MM-DD": "October 3rd", "3 de octubre", "10/3", "yesterday", "two weeks ago"
+  pastDate(text: string, language: LanguageCode): string | null {
+    const today = new Date();
+    today.setHours(12, 0, 0, 0);
+    const date = parseSpokenDate(spokenDigitsToNumbers(text).toLowerCase(), language, today);
+    return date && date <= today ? toIsoDate(date) : null;
+  },
+  // 'yes' when the item is unused and in its original packaging, 'no' when it isn't
+  itemCondition(text: string, language: LanguageCode): string | null {
+    if (containsAny(text, goodConditionWords)) return 'yes';
+    if (containsAny(text, poorConditionWords)) return 'no';
+    return yesOrNo(text, language);
+  },
+};
+
+// Month names in every supported language (and common abbreviations), January first
+const monthNames = [
+  ['january', 'jan', 'enero', 'janvier', 'januar'],
+  ['february', 'feb', 'febrero', 'février', 'fevrier', 'februar'],
+  ['march', 'marzo', 'mars', 'märz', 'marz'],
+  ['april', 'apr', 'abril', 'avril'],
+  ['may', 'mayo', 'mai'],
+  ['june', 'junio', 'juin', 'juni'],
+  ['july', 'julio', 'juillet', 'juli'],
+  ['august', 'aug', 'agosto', 'août', 'aout'],
+  ['september', 'sept', 'sep', 'septiembre', 'septembre'],
+  ['october', 'oct', 'octubre', 'octobre', 'oktober'],
+  ['november', 'nov', 'noviembre', 'novembre'],
+  ['december', 'dec', 'diciembre', 'décembre', 'decembre', 'dezember'],
+];
+const monthPattern = monthNames.flat().sort((a, b) => b.length - a.length).join('|');
+const monthIndex = (name: string) => monthNames.findIndex(names => names.includes(name));
+
+const todayWords = ['today', 'hoy', "aujourd'hui", 'heute'];
+const yesterdayWords = ['yesterday', 'ayer', 'hier', 'gestern'];
+const dayUnits = /^(day|días|dias|día|dia|jour|jours|tag|tage|tagen)$/;
+
+function toIsoDate(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+function parseSpokenDate(text: string, language: LanguageCode, today: Date): Date | null {
+  const daysAgo = (days: number) => new Date(today.getFullYear(), today.getMonth(), today.getDate() - days, 12);
+
+  const iso = text.match(/\b(\d{4})-(\d{2})-(\d{2})\b/);
+  if (iso) {
+    return validDate(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3]));
+  }
+
+  // The day number can come before ("3 de octubre", "3. Oktober") or after ("October 3rd") the month
+  const named = text.match(new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th|er|\\.)?\\s+(?:of\\s+|de\\s+)?(${monthPattern})\\b(?:,?\\s+(?:de\\s+)?(\\d{4}))?`))
+    ?? text.match(new RegExp(`\\b(${monthPattern})\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b(?:,?\\s+(\\d{4}))?`));
+  if (named) {
+    const [day, month] = /^\d/.test(named[1]) ? [named[1], named[2]] : [named[2], named[1]];
+    return withYear(monthIndex(month), Number(day), named[3], today);
+  }
+
+  // Numbers read month first in English and day first elsewhere
+  const numeric = text.match(/\b(\d{1,2})[/.](\d{1,2})(?:[/.](\d{2,4}))?\b/);
+  if (numeric) {
+    const [month, day] = language === 'en' ? [numeric[1], numeric[2]] : [numeric[2], numeric[1]];
+    const year = numeric[3]?.length === 2 ? `20${numeric[3]}` : numeric[3];
+    return withYear(Number(month) - 1, Number(day), year, today);
+  }
+
+  if (containsAny(text, yesterdayWords)) return daysAgo(1);
+  if (containsAny(text, todayWords)) return daysAgo(0);
+
+  // "2 weeks ago", "hace 3 días", "il y a 10 jours", "vor 2 Wochen"
+  const relative = text.match(/(?:\b(\d+|a|an)\s+(\p{L}+)\s+ago\b)|(?:\bhace\s+(\d+)\s+(\p{L}+))|(?:\bil y a\s+(\d+)\s+(\p{L}+))|(?:\bvor\s+(\d+)\s+(\p{L}+))/u);
+  if (relative) {
+    const [count, unit] = relative.slice(1).filter(Boolean);
+    const amount = /^\d+$/.test(count) ? Number(count) : 1;
+    return daysAgo(dayUnits.test(unit) ? amount : amount * 7);
+  }
+  return null;
+}
+
+function validDate(year: number, month: number, day: number): Date | null {
+  const date = new Date(year, month, day, 12);
+  return month >= 0 && date.getMonth() === month && date.getDate() === day ? date : null;
+}
+
+// Dates said without a year are the most recent one
+function withYear(month: number, day: number, year: string | undefined, today: Date): Date | null {
+  if (year) return validDate(Number(year), month, day);
+  const date = validDate(today.getFullYear(), month, day);
+  return date && date > today ? validDate(today.getFullYear() - 1, month, day) : date;
+}
+
+// Checked before plain yes/no, so "no, never used" counts as good condition
+const goodConditionWords = [
+  'unused', 'unopened', 'never used', 'not used', 'never opened', 'not opened', 'never been used', 'never been opened',
+  "hasn't been used", "hasn't been opened", 'brand new', 'sealed', 'original packaging',
+  'sin usar', 'sin abrir', 'nuevo', 'nueva', 'embalaje original',
+  'neuf', 'neuve', 'jamais utilisé', 'pas ouvert', 'emballage d\'origine',
+  'unbenutzt', 'ungeöffnet', 'neu', 'originalverpackt', 'originalverpackung',
+];
+const poorConditionWords = [
+  'used', 'opened', 'damaged', 'broken', 'worn', 'washed', 'assembled',
+  'usado', 'usada', 'abierto', 'abierta', 'dañado', 'roto',
+  'utilisé', 'ouvert', 'abîmé', 'cassé', 'porté',
+  'benutzt', 'gebraucht', 'geöffnet', 'beschädigt', 'kaputt', 'getragen',
+];
+
+function nextMissingSlot(flow: DialogFlow, slots: Record<string, string>): SlotDefinition | undefined {
+  return flow.slots.find(slot => !slots[slot.name]);
+}
+
+// Ask for the next missing slot, or read everything back for confirmation once none are
+function askNext(flow: DialogFlow, slots: Record<string, string>, language: LanguageCode, preamble = ''): FlowTurn {
+  const slot = nextMissingSlot(flow, slots);
+  const state: ActiveFlow = { kind: 'flow', flowId: flow.id, slots, awaiting: slot?.name ?? null, attempts: 0 };
+  if (slot) {
+    return { reply: `${preamble} ${localize(slot.prompt, language)}`.trim(), dialog: state };
+  }
+
+  const summary = flow.slots
+    .map(definition => `${localize(definition.label, language)} ${definition.describe?.(slots[definition.name], language) ?? slots[definition.name]}`)
+    .join(', ');
+  return { reply: `${preamble} ${localize(flowMessages.confirm, language).replace('{summary}', summary)}`.trim(), dialog: state };
+}
+
+// Begin a flow, keeping any slot values already in the message that started it
+export function startFlow(flow: DialogFlow, message: string, language: LanguageCode, preamble = ''): FlowTurn {
+  const slots: Record<string, string> = {};
+  for (const slot of flow.slots.filter(definition => definition.prefill !== false)) {
+    const value = slot.extract(message, language);
+    // One number shouldn't fill both the order number and the ZIP code
+    if (value && !Object.values(slots).includes(value)) {
+      slots[slot.name] = value;
+    }
+  }
+  return askNext(flow, slots, language, preamble);
+}
+
+// Take the customer's reply to whatever the flow last asked
+export async function continueFlow(flow: DialogFlow, state: ActiveFlow, reply: string, context: FlowContext): Promise<FlowTurn> {
+  const { language } = context;
+  if (isCancellation(reply, language)) {
+    return { reply: localize(flowMessages.cancelled, language), dialog: null };
+  }
+
+  // Waiting on confirmation
+  if (state.awaiting === null) {
+    // Only a clear yes runs the flow; "no, that's not right" starts over and anything unclear asks again
+    const answer = yesOrNo(reply, language);
+    if (answer === 'yes') {
+      try {
+        return { reply: await flow.run(state.slots, context), dialog: null };
+      } catch (error) {
+        console.error(`Error running dialog flow ${flow.id}:`, error);
+        return { reply: localize(flowMessages.failed, language), dialog: null };
+      }
+    }
+    if (answer === 'no') {
+      return askNext(flow, {}, language, localize(flowMessages.retry, language));
+    }
+    return askNext(flow, state.slots, language);
+  }
+
+  const slot = flow.slots.find(definition => definition.name === state.awaiting);
+  const value = slot?.extract(reply, language);
+  if (!slot || !value) {
+    if (state.attempts + 1 >= MAX_SLOT_ATTEMPTS) {
+      return { reply: localize(flowMessages.giveUp, language), dialog: null };
+    }
+    return { reply: localize(slot?.reprompt ?? flowMessages.retry, language), dialog: { ...state, attempts: state.attempts + 1 } };
+  }
+
+  return askNext(flow, { ...state.slots, [slot.name]: value }, language);
+}
+
+const orderNumberSlot: SlotDefinition = {
+  name: 'orderNumber',
+  label: { en: 'order number', es: 'número de pedido', fr: 'numéro de commande', de: 'Bestellnummer' },
+  prompt: {
+    en: "What's your order number? It's in your confirmation email.",
+    es: '¿Cuál es su número de pedido? Aparece en el correo de confirmación.',
+    fr: 'Quel est votre numéro de commande ? Il figure dans votre e-mail de confirmation.',
+    de: 'Wie lautet Ihre Bestellnummer? Sie steht in Ihrer Bestätigungs-E-Mail.',
+  },
+  reprompt: {
+    en: "Sorry, I didn't catch a valid order number. It's five to ten digits. Could you read it to me again?",
+    es: 'Perdone, no he entendido un número de pedido válido. Tiene de cinco a diez dígitos. ¿Puede repetirlo?',
+    fr: "Désolé, je n'ai pas saisi de numéro de commande valide. Il comporte de cinq à dix chiffres. Pouvez-vous le répéter ?",
+    de: 'Entschuldigung, ich habe keine gültige Bestellnummer verstanden. Sie hat fünf bis zehn Ziffern. Können Sie sie wiederholen?',
+  },
+  extract: slotExtractors.orderNumber,
+};
+
+const emailSlot: SlotDefinition = {
+  name: 'email',
+  label: { en: 'email', es: 'correo electrónico', fr: 'e-mail', de: 'E-Mail' },
+  prompt: {
+    en: 'And what email address did you use for the order?',
+    es: '¿Y qué correo electrónico usó para el pedido?',
+    fr: 'Et quelle adresse e-mail avez-vous utilisée pour la commande ?',
+    de: 'Und welche E-Mail-Adresse haben Sie für die Bestellung verwendet?',
+  },
+  reprompt: {
+    en: "Sorry, that didn't sound like an email address. Could you spell it out, like jane at example dot com?",
+    es: 'Perdone, eso no parece un correo electrónico. ¿Puede deletrearlo?',
+    fr: "Désolé, cela ne ressemble pas à une adresse e-mail. Pouvez-vous l'épeler ?",
+    de: 'Entschuldigung, das klang nicht nach einer E-Mail-Adresse. Können Sie sie buchstabieren?',
+  },
+  extract: slotExtractors.email,
+};
+
+registerDialogFlow({
+  id: 'order-status',
+  label: 'Order status lookup',
+  slots: [orderNumberSlot, emailSlot],
+  async run(slots, context) {
+    const { language } = context;
+    const invocation = await invokeTool('lookupOrder', { orderNumber: slots.orderNumber, email: slots.email }, context);
+    if (invocation.error) {
+      throw new Error(invocation.error);
+    }
+
+    const order = invocation.result as Order | { found: false };
+    return 'status' in order
+      ? describeOrder(order, language, context.settings.orders)
+      : describeMissingOrder(slots.orderNumber, slots.email, language);
+  },
+});
+
+const purchaseDateSlot: SlotDefinition = {
+  name: 'purchaseDate',
+  label: { en: 'bought on', es: 'comprado el', fr: 'acheté le', de: 'gekauft am' },
+  prompt: {
+    en: 'When did you buy it, or when did it arrive?',
+    es: '¿Cuándo lo compró o cuándo lo recibió?',
+    fr: "Quand l'avez-vous acheté, ou quand l'avez-vous reçu ?",
+    de: 'Wann haben Sie es gekauft oder erhalten?',
+  },
+  reprompt: {
+    en: "Sorry, I didn't catch the date. You can say something like October 3rd, or two weeks ago.",
+    es: 'Perdone, no he entendido la fecha. Puede decir, por ejemplo, 3 de octubre o hace dos semanas.',
+    fr: "Désolé, je n'ai pas compris la date. Vous pouvez dire par exemple 3 octobre, ou il y a deux semaines.",
+    de: 'Entschuldigung, das Datum habe ich nicht verstanden. Sagen Sie zum Beispiel 3. Oktober oder vor zwei Wochen.',
+  },
+  extract: slotExtractors.pastDate,
+  describe: (value, language) => formatSpokenDate(value, language) ?? value,
+};
+
+const conditionWords: Record<'good' | 'poor', LocalizedText> = {
+  good: { en: 'unused, in the original packaging', es: 'sin usar, en su embalaje original', fr: "inutilisé, dans l'emballage d'origine", de: 'unbenutzt, originalverpackt' },
+  poor: { en: 'used or opened', es: 'usado o abierto', fr: 'utilisé ou ouvert', de: 'benutzt oder geöffnet' },
+};
+
+const itemConditionSlot: SlotDefinition = {
+  name: 'itemCondition',
+  label: { en: 'condition', es: 'estado', fr: 'état', de: 'Zustand' },
+  prompt: {
+    en: 'Is everything unused and still in its original packaging?',
+    es: '¿Está todo sin usar y en su embalaje original?',
+    fr: "Tout est-il inutilisé et encore dans son emballage d'origine ?",
+    de: 'Ist alles unbenutzt und noch originalverpackt?',
+  },
+  reprompt: {
+    en: 'Sorry, is it unused and in the original packaging? Just yes or no is fine.',
+    es: 'Perdone, ¿está sin usar y en su embalaje original? Basta con sí o no.',
+    fr: "Pardon, est-il inutilisé et dans son emballage d'origine ? Un oui ou un non suffit.",
+    de: 'Entschuldigung, ist es unbenutzt und originalverpackt? Ja oder nein genügt.',
+  },
+  extract: slotExtractors.itemCondition,
+  describe: (value, language) => localize(value === 'yes' ? conditionWords.good : conditionWords.poor, language),
+  // "Can I return this?" shouldn't be heard as an answer about its condition
+  prefill: false,
+};
+
+registerDialogFlow({
+  id: 'return',
+  label: 'Return and RMA',
+  slots: [orderNumberSlot, emailSlot, purchaseDateSlot, itemConditionSlot],
+  async run(slots, context) {
+    const invocation = await invokeTool('createReturnAuthorization', {
+      orderNumber: slots.orderNumber,
+      email: slots.email,
+      purchaseDate: slots.purchaseDate,
+      originalCondition: slots.itemCondition === 'yes',
+    }, context);
+    if (invocation.error) {
+      throw new Error(invocation.error);
+    }
+    return (invocation.result as { message: string }).message;
+  },
+});
@@ -0,0 +1,125 @@
+// Dialog state carried from one customer turn to the next
+
+import { LanguageCode } from './languages';
+
+// The agent asked which of these intents the customer meant
+export interface PendingDisambiguation {
+  kind: 'disambiguation';
+  // Intent IDs, in the order they were offered
+  candidateIds: string[];
+  // What the customer originally said, for logging
+  originalMessage: string;
+}
+
+// A dialog flow is part-way through collecting its slots
+export interface ActiveFlow {
+  kind: 'flow';
+  flowId: string;
+  // Slot values collected so far, by slot name
+  slots: Record<string, string>;
+  // The slot the agent last asked for, or null while waiting for the customer to confirm
+  awaiting: string | null;
+  // Invalid answers in a row for the awaited slot
+  attempts: number;
+}
+
+export type DialogState = PendingDisambiguation | ActiveFlow | null;
+
+const affirmativeWords: Record<LanguageCode, string[]> = {
+  en: ['yes', 'yeah', 'yep', 'yup', 'correct', 'right', 'sure', 'exactly', 'that one'],
+  es: ['sí', 'si', 'claro', 'correcto', 'exacto', 'eso'],
+  fr: ['oui', 'ouais', 'exact', 'exactement', "c'est ça", 'bien sûr'],
+  de: ['ja', 'genau', 'richtig', 'stimmt', 'korrekt'],
+};
+
+const negativeWords: Record<LanguageCode, string[]> = {
+  en: ['no', 'nope', 'neither', 'none', 'something else', 'not really', 'wrong', 'incorrect'],
+  es: ['no', 'ninguno', 'ninguna', 'otra cosa', 'incorrecto', 'equivocado'],
+  fr: ['non', 'aucun', 'aucune', 'autre chose', 'faux', 'incorrect'],
+  de: ['nein', 'keins', 'keines', 'etwas anderes', 'falsch'],
+};
+
+// Words that turn a yes-word around: "not right", "pas exact" before it, "stimmt nicht" after it
+const negationsBefore: Record<LanguageCode, string[]> = {
+  en: ['not', "isn't", "wasn't", "ain't"],
+  es: ['no', 'nada'],
+  fr: ['pas'],
+  de: ['nicht'],
+};
+
+const negationsAfter: Record<LanguageCode, string[]> = {
+  en: [],
+  es: [],
+  fr: ['pas'],
+  de: ['nicht'],
+};
+
+const cancelWords: Record<LanguageCode, string[]> = {
+  en: ['cancel', 'never mind', 'nevermind', 'forget it', 'stop'],
+  es: ['cancelar', 'cancela', 'olvídalo', 'olvidalo', 'déjalo'],
+  fr: ['annuler', 'annule', 'laisse tomber', 'oublie'],
+  de: ['abbrechen', 'vergiss es', 'egal', 'stopp'],
+};
+
+// "The first one", "the second"... by position in the offered list
+const ordinalWords: Record<LanguageCode, string[][]> = {
+  en: [['first', 'former'], ['second', 'latter'], ['third']],
+  es: [['primero', 'primera'], ['segundo', 'segunda'], ['tercero', 'tercera']],
+  fr: [['premier', 'première'], ['deuxième', 'second', 'seconde'], ['troisième']],
+  de: [['erste', 'ersten', 'erstes'], ['zweite', 'zweiten', 'zweites'], ['dritte', 'dritten', 'drittes']],
+};
+
+const orWord: Record<LanguageCode, string> = { en: 'or', es: 'o', fr: 'ou', de: 'oder' };
+
+function words(text: string): string {
+  return ` ${text.toLowerCase().split(/[^\p{L}\p{N}']+/u).filter(Boolean).join(' ')} `;
+}
+
+// Whole-word, case-insensitive match of any of the phrases
+export function containsAny(text: string, phrases: string[]): boolean {
+  const normalized = words(text);
+  return phrases.some(phrase => normalized.includes(words(phrase)));
+}
+
+// The yes-words in the text that have been negated, like "correct" in "that's not correct"
+function negatedAffirmatives(text: string, language: LanguageCode): string[] {
+  const phrases = [...affirmativeWords[language], ...affirmativeWords.en];
+  return phrases.filter(phrase =>
+    negationsBefore[language].some(negation => containsAny(text, [`${negation} ${phrase}`])) ||
+    negationsAfter[language].some(negation => containsAny(text, [`${phrase} ${negation}`])));
+}
+
+export function isAffirmative(text: string, language: LanguageCode): boolean {
+  const negated = negatedAffirmatives(text, language);
+  const phrases = [...affirmativeWords[language], ...affirmativeWords.en].filter(phrase => !negated.includes(phrase));
+  return containsAny(text, phrases);
+}
+
+export function isNegative(text: string, language: LanguageCode): boolean {
+  return containsAny(text, negativeWords[language]) || containsAny(text, negativeWords.en) || negatedAffirmatives(text, language).length > 0;
+}
+
+// The answer to a yes/no question; null when it's neither, or both ("yes... no, wait"), so the question is asked again
+export function yesOrNo(text: string, language: LanguageCode): 'yes' | 'no' | null {
+  const negative = isNegative(text, language);
+  const affirmative = isAffirmative(text, language);
+  if (negative === affirmative) return null;
+  return negative ? 'no' : 'yes';
+}
+
+export function isCancellation(text: string, language: LanguageCode): boolean {
+  return containsAny(text, cancelWords[language]) || containsAny(text, cancelWords.en);
+}
+
+// Index of the option the customer picked by position, if they did
+export function pickOrdinal(text: string, optionCount: number, language: LanguageCode): number | null {
+  const ordinals = ordinalWords[language].slice(0, optionCount);
+  const picked = ordinals.findIndex(ordinal => containsAny(text, ordinal));
+  return picked === -1 ? null : picked;
+}
+
+// "a", "a or b", "a, b or c"
+export function formatChoices(labels: string[], language: LanguageCode): string {
+  if (labels.length <= 1) return labels[0] ?? '';
+  return `${labels.slice(0, -1).join(', ')} ${orWord[language]} ${labels[labels.length - 1]}`;
+}
@@ -0,0 +1,90 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { addDocument, chunkText, getDocuments, KnowledgeDocument, removeDocument, retrievePassages } from './documents';
+import { EmbeddingContext } from './embeddings';
+import { DEFAULT_AGENT_SETTINGS } from './settings';
+
+const local: EmbeddingContext = {
+  apiKeys: { openaiKey: '', elevenlabsKey: '', deepgramKey: '', orderApiKey: '' },
+  settings: { ...DEFAULT_AGENT_SETTINGS.matching, embeddingProvider: 'local-trigram' },
+};
+
+beforeEach(() => {
+  const store = new Map<string, string>();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => store.get(key) ?? null,
+    setItem: (key: string, value: string) => store.set(key, value),
+    removeItem: (key: string) => store.delete(key),
+  });
+});
+
+describe('chunkText', () => {
+  it('packs paragraphs together up to the target length', () => {
+    const text = 'Returns are free.\n\nRefunds take five days.\n\n\n  Exchanges   are allowed.  ';
+    expect(chunkText(text, 45)).toEqual(['Returns are free.\nRefunds take five days.', 'Exchanges are allowed.']);
+  });
+
+  it('breaks long paragraphs at sentence ends, never mid-sentence', () => {
+    const paragraph = 'Items must be unused. Tags must be attached. Sale items are final! Ask us anytime';
+    const chunks = chunkText(paragraph, 50);
+    expect(chunks).toEqual(['Items must be unused.\nTags must be attached.', 'Sale items are final!\nAsk us anytime']);
+    chunks.forEach(chunk => expect(chunk.length).toBeLessThanOrEqual(50));
+  });
+
+  it('returns nothing for blank text', () => {
+    expect(chunkText(' \n\n \n')).toEqual([]);
+  });
+});
+
+describe('stored documents', () => {
+  it('strips markdown, chunks the text and replaces a re-upload with the same name', async () => {
+    const first = await addDocument(new File(['# Returns\n\nSee **our** [policy](https://example.com).'], 'returns.md'));
+    expect(first.type).toBe('markdown');
+    expect(first.chunks).toEqual([{ id: `${first.id}#0`, index: 0, text: 'Returns\nSee our policy.' }]);
+
+    const second = await addDocument(new File(['Returns within 30 days.'], 'returns.md'));
+    expect(getDocuments().map(document => document.id)).toEqual([second.id]);
+
+    removeDocument(second.id);
+    expect(getDocuments()).toEqual([]);
+  });
+
+  it('rejects unsupported and empty files', async () => {
+    await expect(addDocument(new File(['data'], 'sheet.xlsx'))).rejects.toThrow('Unsupported document type: sheet.xlsx');
+    await expect(addDocument(new File(['   '], 'empty.txt'))).rejects.toThrow('No text found in empty.txt');
+  });
+});
+
+describe('retrievePassages', () => {
+  const document = (name: string, texts: string[]): KnowledgeDocument => ({
+    id: name,
+    name,
+    type: 'text',
+    uploadedAt: '2030-01-01T00:00:00.000Z',
+    chunks: texts.map((text, index) => ({ id: `${name}#${index}`, index, text })),
+  });
+
+  const documents = [
+    document('returns.txt', ['Returns are accepted within 30 days of delivery.', 'Gift cards cannot be refunded.']),
+    document('shipping.txt', ['Standard shipping takes three to five business days.']),
+  ];
+
+  it('returns the closest passages first, up to the limit', async () => {
+    const passages = await retrievePassages('How many days does shipping take? Are returns accepted?', documents, local);
+    expect(passages.map(passage => passage.chunk.id).sort()).toEqual(['returns.txt#0', 'shipping.txt#0']);
+    expect(passages[0].score).toBeGreaterThanOrEqual(passages[1].score);
+
+    const [best, ...rest] = await retrievePassages('Are returns accepted after delivery?', documents, local, 1);
+    expect(best.chunk.id).toBe('returns.txt#0');
+    expect(rest).toEqual([]);
+  });
+
+  it('leaves out passages that are barely related', async () => {
+    const passages = await retrievePassages('zebra xylophone', documents, local);
+    expect(passages).toEqual([]);
+  });
+
+  it('returns nothing for a blank query or no documents', async () => {
+    expect(await retrievePassages('  ', documents, local)).toEqual([]);
+    expect(await retrievePassages('returns', [], local)).toEqual([]);
+  });
+});
@@ -0,0 +1,197 @@
+// Knowledge documents: uploaded policy docs, chunked into passages and retrieved for LLM answers
+
+import { cosineSimilarity, embedTexts, EmbeddingContext } from './embeddings';
+
+const DOCUMENTS_STORAGE_KEY = 'ai-agent-documents';
+
+export type DocumentType = 'markdown' | 'text' | 'html' | 'pdf';
+
+export interface DocumentChunk {
+  // `${documentId}#${index}`, stable for as long as the document is stored
+  id: string;
+  index: number;
+  text: string;
+}
+
+export interface KnowledgeDocument {
+  id: string;
+  name: string;
+  type: DocumentType;
+  uploadedAt: string;
+  chunks: DocumentChunk[];
+}
+
+export interface RetrievedPassage {
+  document: KnowledgeDocument;
+  chunk: DocumentChunk;
+  // Cosine similarity between the query and the chunk, 0-1
+  score: number;
+}
+
+// Passages are cut at paragraph and sentence boundaries to roughly this many characters
+const CHUNK_TARGET_LENGTH = 800;
+
+// Passages scoring below this are too loosely related to be worth putting in the prompt
+const MIN_PASSAGE_SCORE = 0.2;
+
+export const SUPPORTED_DOCUMENT_EXTENSIONS = ['.md', '.markdown', '.txt', '.html', '.htm', '.pdf'];
+
+function documentType(fileName: string): DocumentType {
+  const extension = fileName.toLowerCase().split('.').pop();
+  switch (extension) {
+    case 'md':
+    case 'markdown':
+      return 'markdown';
+    case 'html':
+    case 'htm':
+      return 'html';
+    case 'pdf':
+      return 'pdf';
+    case 'txt':
+      return 'text';
+    default:
+      throw new Error(`Unsupported document type: ${fileName}`);
+  }
+}
+
+// Drop the markup that would read oddly in a prompt, keeping headings and list items as plain lines
+function stripMarkdown(markdown: string): string {
+  return markdown
+    .replace(/```[\s\S]*?```/g, '')
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/^\s{0,3}#{1,6}\s+/gm, '')
+    .replace(/^\s*[-*+]\s+/gm, '- ')
+    .replace(/(\*\*|__|\*|_|`)/g, '');
+}
+
+function extractHtmlText(html: string): string {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  doc.querySelectorAll('script, style, noscript').forEach(element => element.remove());
+  // Keep block elements on their own lines so paragraphs survive into chunking
+  doc.querySelectorAll('p, div, li, h1, h2, h3, h4, h5, h6, br, tr, section, article').forEach(element => {
+    element.append(doc.createTextNode('\n\n'));
+  });
+  return doc.body.textContent ?? '';
+}
+
+// pdfjs is large, so it's only loaded once someone uploads a PDF
+async function extractPdfText(data: ArrayBuffer): Promise<string> {
+  const [pdfjs, { default: workerUrl }] = await Promise.all([
+    import('pdfjs-dist'),
+    import('pdfjs-dist/build/pdf.worker.min.mjs?url'),
+  ]);
+  pdfjs.GlobalWorkerOptions.workerSrc = workerUrl;
+
+  const pdf = await pdfjs.getDocument({ data }).promise;
+  const pages: string[] = [];
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+    const page = await pdf.getPage(pageNumber);
+    const content = await page.getTextContent();
+    pages.push(content.items.map(item => ('str' in item ? item.str + (item.hasEOL ? '\n' : '') : '')).join(''));
+  }
+  return pages.join('\n\n');
+}
+
+// Plain text of an uploaded file
+export async function extractDocumentText(file: File): Promise<{ type: DocumentType; text: string }> {
+  const type = documentType(file.name);
+  switch (type) {
+    case 'markdown':
+      return { type, text: stripMarkdown(await file.text()) };
+    case 'html':
+      return { type, text: extractHtmlText(await file.text()) };
+    case 'pdf':
+      return { type, text: await extractPdfText(await file.arrayBuffer()) };
+    default:
+      return { type, text: await file.text() };
+  }
+}
+
+// Split text into passages of about CHUNK_TARGET_LENGTH characters, never breaking mid-sentence
+export function chunkText(text: string, targetLength: number = CHUNK_TARGET_LENGTH): string[] {
+  const paragraphs = text
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+
+  // Paragraphs longer than a chunk are broken into sentences first
+  const pieces = paragraphs.flatMap(paragraph =>
+    paragraph.length <= targetLength ? [paragraph] : paragraph.match(/[^.!?]+[.!?]+["')\]]*\s*|[^.!?]+$/g) ?? [paragraph]
+  );
+
+  const chunks: string[] = [];
+  let current = '';
+  for (const piece of pieces) {
+    const trimmed = piece.trim();
+    if (current && current.length + trimmed.length + 1 > targetLength) {
+      chunks.push(current);
+      current = '';
+    }
+    current = current ? `${current}\n${trimmed}` : trimmed;
+  }
+  if (current) {
+    chunks.push(current);
+  }
+  return chunks;
+}
+
+// Helper function to get the stored documents from localStorage
+export function getDocuments(): KnowledgeDocument[] {
+  const saved = localStorage.getItem(DOCUMENTS_STORAGE_KEY);
+  return saved ? JSON.parse(saved) : [];
+}
+
+// Helper function to persist documents to localStorage
+export function saveDocuments(documents: KnowledgeDocument[]): void {
+  try {
+    localStorage.setItem(DOCUMENTS_STORAGE_KEY, JSON.stringify(documents));
+  } catch (error) {
+    throw new Error(`Not enough browser storage for these documents: ${(error as Error).message}`);
+  }
+}
+
+// Extract, chunk and store an uploaded file; re-uploading a file with the same name replaces it
+export async function addDocument(file: File): Promise<KnowledgeDocument> {
+  const { type, text } = await extractDocumentText(file);
+  const chunks = chunkText(text);
+  if (chunks.length === 0) {
+    throw new Error(`No text found in ${file.name}`);
+  }
+
+  const id = crypto.randomUUID();
+  const document: KnowledgeDocument = {
+    id,
+    name: file.name,
+    type,
+    uploadedAt: new Date().toISOString(),
+    chunks: chunks.map((passage, index) => ({ id: `${id}#${index}`, index, text: passage })),
+  };
+
+  saveDocuments([...getDocuments().filter(existing => existing.name !== file.name), document]);
+  return document;
+}
+
+export function removeDocument(id: string): void {
+  saveDocuments(getDocuments().filter(document => document.id !== id));
+}
+
+// The passages most similar to the query, best first
+export async function retrievePassages(
+  query: string,
+  documents: KnowledgeDocument[],
+  context: EmbeddingContext,
+  limit: number = 3
+): Promise<RetrievedPassage[]> {
+  const candidates = documents.flatMap(document => document.chunks.map(chunk => ({ document, chunk })));
+  if (!query.trim() || candidates.length === 0) {
+    return [];
+  }
+
+  const [queryVector, ...chunkVectors] = await embedTexts([query, ...candidates.map(({ chunk }) => chunk.text)], context);
+  return candidates
+    .map((candidate, index) => ({ ...candidate, score: cosineSimilarity(queryVector, chunkVectors[index]) }))
+    .filter(passage => passage.score >= MIN_PASSAGE_SCORE)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
@@ -0,0 +1,53 @@
+// ElevenLabs voice catalog for the voice picker
+
+import { DEFAULT_BASE_URLS } from './settings';
+import { trimTrailingSlash } from './utils';
+
+export interface VoiceInfo {
+  id: string;
+  name: string;
+  category: string;
+  gender: string;
+  accent: string;
+  language: string;
+  description: string;
+  previewUrl: string;
+}
+
+interface ElevenLabsVoice {
+  voice_id: string;
+  name: string;
+  category?: string;
+  labels?: Record<string, string>;
+  description?: string;
+  preview_url?: string;
+  verified_languages?: Array<{ language: string; accent?: string }>;
+}
+
+// List the voices available to the account behind the key (premade, cloned and library voices)
+export async function fetchElevenLabsVoices(apiKey: string, baseUrl: string = ''): Promise<VoiceInfo[]> {
+  const response = await fetch(`${trimTrailingSlash(baseUrl || DEFAULT_BASE_URLS.elevenlabs)}/v1/voices`, {
+    headers: { 'xi-api-key': apiKey },
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`ElevenLabs API error: ${error}`);
+  }
+
+  const result: { voices: ElevenLabsVoice[] } = await response.json();
+  return result.voices.map((voice) => {
+    const labels = voice.labels ?? {};
+    const verifiedLanguages = voice.verified_languages ?? [];
+    return {
+      id: voice.voice_id,
+      name: voice.name,
+      category: voice.category ?? '',
+      gender: labels.gender ?? '',
+      accent: labels.accent ?? verifiedLanguages[0]?.accent ?? '',
+      language: labels.language ?? verifiedLanguages.map(({ language }) => language).join(', '),
+      description: labels.description ?? voice.description ?? '',
+      previewUrl: voice.preview_url ?? '',
+    };
+  });
+}
@@ -0,0 +1,54 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { cosineSimilarity, embedTexts, EmbeddingContext } from './embeddings';
+import { DEFAULT_AGENT_SETTINGS } from './settings';
+
+const apiKeys = { openaiKey: 'sk-test', elevenlabsKey: '', deepgramKey: '', orderApiKey: '' };
+const local: EmbeddingContext = { apiKeys, settings: { ...DEFAULT_AGENT_SETTINGS.matching, embeddingProvider: 'local-trigram' } };
+const openai: EmbeddingContext = {
+  apiKeys,
+  settings: { ...DEFAULT_AGENT_SETTINGS.matching, embeddingProvider: 'openai-embeddings', baseUrl: 'https://embeddings.test/' },
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('local trigram embeddings', () => {
+  it('returns unit vectors, so identical text scores 1', async () => {
+    const [first, second] = await embedTexts(['What are your hours?', 'what are your HOURS'], local);
+    expect(cosineSimilarity(first, first)).toBeCloseTo(1);
+    expect(cosineSimilarity(first, second)).toBeCloseTo(1);
+  });
+
+  it('keeps a misheard word close to the word it should have been', async () => {
+    const [misheard, hours, refund] = await embedTexts(['what are your ours', 'what are your hours', 'I want a refund'], local);
+    expect(cosineSimilarity(misheard, hours)).toBeGreaterThan(0.8);
+    expect(cosineSimilarity(misheard, refund)).toBeLessThan(0.3);
+  });
+});
+
+describe('OpenAI embeddings', () => {
+  it('posts to the configured base URL and returns normalized vectors in input order', async () => {
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify({
+      data: [{ index: 1, embedding: [0, 2] }, { index: 0, embedding: [3, 4] }],
+    })));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const vectors = await embedTexts(['first text', 'second text'], openai);
+    expect(vectors).toEqual([[0.6, 0.8], [0, 1]]);
+
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe('https://embeddings.test/v1/embeddings');
+    expect((init.headers as Record<string, string>)['Authorization']).toBe('Bearer sk-test');
+    expect(JSON.parse(init.body as string)).toEqual({ model: 'text-embedding-3-small', input: ['first text', 'second text'] });
+
+    // Texts already embedded come from the cache
+    await embedTexts(['second text', 'first text'], openai);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports API errors', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('quota exceeded', { status: 429 })));
+    await expect(embedTexts(['a text nobody embedded yet'], openai)).rejects.toThrow(/quota exceeded/);
+  });
+});
@@ -0,0 +1,137 @@
+// Text embedding providers used to score customer messages against intent examples
+
+import type { ApiKeys } from './ai-services';
+import { DEFAULT_BASE_URLS, EmbeddingProviderId, IntentMatchingSettings } from './settings';
+import { trimTrailingSlash } from './utils';
+
+export interface EmbeddingContext {
+  apiKeys: ApiKeys;
+  settings: IntentMatchingSettings;
+}
+
+export interface EmbeddingProvider {
+  id: EmbeddingProviderId;
+  label: string;
+  // Endpoint used when the base URL setting is blank; empty for local providers
+  defaultBaseUrl: string;
+  defaultModel: string;
+  isConfigured(context: EmbeddingContext): boolean;
+  // One unit-length vector per input text
+  embed(texts: string[], context: EmbeddingContext): Promise<number[][]>;
+}
+
+const providers = new Map<EmbeddingProviderId, EmbeddingProvider>();
+
+export function registerEmbeddingProvider(provider: EmbeddingProvider): void {
+  providers.set(provider.id, provider);
+}
+
+export function getEmbeddingProvider(id: EmbeddingProviderId): EmbeddingProvider {
+  const provider = providers.get(id);
+  if (!provider) {
+    throw new Error(`Unknown embedding provider: ${id}`);
+  }
+  return provider;
+}
+
+export function listEmbeddingProviders(): EmbeddingProvider[] {
+  return Array.from(providers.values());
+}
+
+// Embeddings keyed by provider, model and text, so intent examples and document chunks are only embedded once per session
+const embeddingCache = new Map<string, number[]>();
+
+export async function embedTexts(texts: string[], context: EmbeddingContext): Promise<number[][]> {
+  const provider = getEmbeddingProvider(context.settings.embeddingProvider);
+  const cacheKey = (text: string) => `${provider.id}|${context.settings.model || provider.defaultModel}|${text}`;
+
+  const missing = Array.from(new Set(texts.filter(text => !embeddingCache.has(cacheKey(text)))));
+  if (missing.length > 0) {
+    const vectors = await provider.embed(missing, context);
+    missing.forEach((text, index) => embeddingCache.set(cacheKey(text), vectors[index]));
+  }
+
+  return texts.map(text => embeddingCache.get(cacheKey(text)));
+}
+
+// Dot product of two unit vectors, i.e. their cosine similarity
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
+
+function normalizeVector(vector: number[]): number[] {
+  const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return length === 0 ? vector : vector.map(value => value / length);
+}
+
+const TRIGRAM_DIMENSIONS = 512;
+
+// FNV-1a, folded into the vector's dimensions
+function hashFeature(feature: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < feature.length; i++) {
+    hash ^= feature.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) % TRIGRAM_DIMENSIONS;
+}
+
+// Hashed character trigrams plus whole words: misheard words ("ours" for "hours") still share most trigrams
+function embedWithTrigrams(text: string): number[] {
+  const vector = new Array<number>(TRIGRAM_DIMENSIONS).fill(0);
+  const words = text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+  for (const word of words) {
+    vector[hashFeature(`w:${word}`)] += 1;
+    const padded = `#${word}#`;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      vector[hashFeature(padded.slice(i, i + 3))] += 1;
+    }
+  }
+  return normalizeVector(vector);
+}
+
+registerEmbeddingProvider({
+  id: 'local-trigram',
+  label: 'Local (character trigrams)',
+  defaultBaseUrl: '',
+  defaultModel: '',
+  isConfigured: () => true,
+  async embed(texts) {
+    return texts.map(embedWithTrigrams);
+  },
+});
+
+registerEmbeddingProvider({
+  id: 'openai-embeddings',
+  label: 'OpenAI Embeddings',
+  defaultBaseUrl: DEFAULT_BASE_URLS.openai,
+  defaultModel: 'text-embedding-3-small',
+  isConfigured: ({ apiKeys, settings }) => !!apiKeys.openaiKey || !!settings.baseUrl,
+  async embed(texts, { apiKeys, settings }) {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (apiKeys.openaiKey) {
+      headers['Authorization'] = `Bearer ${apiKeys.openaiKey}`;
+    }
+
+    const baseUrl = trimTrailingSlash(settings.baseUrl || this.defaultBaseUrl);
+    const response = await fetch(`${baseUrl}/v1/embeddings`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ model: settings.model || this.defaultModel, input: texts }),
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`Embeddings API error: ${error}`);
+    }
+
+    const result = await response.json();
+    return (result.data as Array<{ index: number; embedding: number[] }>)
+      .sort((a, b) => a.index - b.index)
+      .map(item => normalizeVector(item.embedding));
+  },
+});
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { isHumanRequest } from './escalation';
+import { LanguageCode } from './languages';
+
+describe('isHumanRequest', () => {
+  it.each<[string, LanguageCode]>([
+    ['Can I talk to a person?', 'en'],
+    ['speak to an agent', 'en'],
+    ['I want a real human', 'en'],
+    ['real human please', 'en'],
+    ['Just put me through to your manager', 'en'],
+    ['I need to talk to someone', 'en'],
+    ['Quiero hablar con una persona', 'es'],
+    ['Je voudrais parler à un conseiller', 'fr'],
+    ['Ich möchte mit einem Menschen sprechen', 'de'],
+    ['Verbinden Sie mich mit einem Mitarbeiter', 'de'],
+    ['No, I want to talk to a person', 'en'],
+  ])('escalates on "%s"', (text, language) => {
+    expect(isHumanRequest(text, language)).toBe(true);
+  });
+
+  it.each<[string, LanguageCode]>([
+    ['I need someone to sign for the package', 'en'],
+    ['can I let the agent know my new address', 'en'],
+    ['Is this a person?', 'en'],
+    ['I want to return the person-sized beanbag', 'en'],
+    ['Necesito que alguien firme el paquete', 'es'],
+    ['Kann jemand das Paket annehmen?', 'de'],
+    ["I don't want to talk to a person, just tell me where my order is", 'en'],
+    ['no need for a human', 'en'],
+    ["I don't need a real person", 'en'],
+    ['No quiero hablar con una persona', 'es'],
+    ['Je ne veux pas parler à un conseiller', 'fr'],
+    ['Ich möchte nicht mit einem Menschen sprechen', 'de'],
+  ])('does not escalate on "%s"', (text, language) => {
+    expect(isHumanRequest(text, language)).toBe(false);
+  });
+});
@@ -0,0 +1,256 @@
+// Handing a call to a person: when to escalate, what the caller hears meanwhile, and the summary the operator gets
+
+import type { AnswerSource } from './ai-services';
+import type { ToolInvocation } from './tools';
+import { containsAny, DialogState } from './dialog';
+import { LanguageCode, LocalizedText, localize, SUPPORTED_LANGUAGES } from './languages';
+import { EscalationSettings } from './settings';
+
+export type EscalationReason = 'requested' | 'repeated-fallback' | 'negative-sentiment';
+
+// Escalation signals carried from one customer turn to the next
+export interface EscalationSignals {
+  // Fallback answers in a row
+  fallbacks: number;
+  // Upset-sounding customer turns in a row
+  negativeTurns: number;
+}
+
+export const NO_ESCALATION_SIGNALS: EscalationSignals = { fallbacks: 0, negativeTurns: 0 };
+
+// Being put through: counts with a person or anyone a few filler words away, like "speak to a real person" or "talk to someone"
+const talkWords: Record<LanguageCode, string[]> = {
+  en: ['talk', 'speak', 'transfer', 'connect', 'put me through'],
+  es: ['hablar', 'pasar', 'pásame', 'páseme', 'paseme', 'comunicar', 'comunicarme', 'transferir'],
+  fr: ['parler', 'passer', 'passez', 'transférer'],
+  de: ['sprechen', 'reden', 'verbinden', 'durchstellen'],
+};
+
+// Asking outright: only counts right before a person, so "I want a human" does but "I need someone to sign for it" doesn't
+const askWords: Record<LanguageCode, string[]> = {
+  en: ['want', 'need', 'get me', 'give me'],
+  es: ['quiero', 'necesito'],
+  fr: ['veux', 'voudrais', 'besoin'],
+  de: ['möchte', 'will', 'brauche'],
+};
+
+const personWords: Record<LanguageCode, string[]> = {
+  en: ['person', 'human', 'agent', 'representative', 'rep', 'operator', 'manager', 'supervisor'],
+  es: ['persona', 'humano', 'agente', 'operador', 'representante', 'encargado', 'supervisor'],
+  fr: ['personne', 'humain', 'conseiller', 'conseillère', 'agent', 'opérateur', 'responsable'],
+  de: ['mensch', 'menschen', 'person', 'mitarbeiter', 'mitarbeiterin', 'berater', 'vorgesetzten'],
+};
+
+const anyoneWords: Record<LanguageCode, string[]> = {
+  en: ['someone', 'somebody'],
+  es: ['alguien'],
+  fr: ["quelqu'un"],
+  de: ['jemandem', 'jemand'],
+};
+
+// What can come between the verb and the person: "to a real", "con una", "mit einem"
+const fillerWords: Record<LanguageCode, string[]> = {
+  en: ['me', 'to', 'with', 'a', 'an', 'the', 'your', 'one', 'of', 'real', 'actual', 'live', 'proper'],
+  es: ['me', 'con', 'a', 'al', 'un', 'una', 'el', 'la', 'algún', 'alguna', 'real', 'de', 'verdad'],
+  fr: ['moi', 'à', 'avec', 'un', 'une', 'le', 'la', "d'un", "d'une", 'vrai', 'vraie'],
+  de: ['sie', 'mich', 'mit', 'zu', 'einem', 'einer', 'einen', 'dem', 'der', 'den', 'echten', 'richtigen'],
+};
+
+// Saying it this way is a request on its own: "real human", "live agent"
+const personPhrases: Record<LanguageCode, string[]> = {
+  en: ['real person', 'real human', 'actual person', 'actual human', 'live person', 'live agent', 'human being'],
+  es: ['persona real', 'ser humano', 'agente humano'],
+  fr: ['vraie personne', 'être humain', 'conseiller humain'],
+  de: ['echter mensch', 'echten menschen', 'richtigen menschen'],
+};
+
+// German puts the verb last: "mit einem Menschen sprechen"
+const verbLastLanguages: LanguageCode[] = ['de'];
+
+// A request right after one of these is turned down rather than made: "I don't want to talk to a person"
+const negationWords: Record<LanguageCode, string[]> = {
+  en: ['not', "don't", 'dont', "doesn't", "won't", "wouldn't", 'never', 'no', 'without'],
+  es: ['no', 'nunca', 'sin'],
+  fr: ['ne', 'pas', "n'ai", 'jamais', 'sans'],
+  de: ['nicht', 'kein', 'keine', 'keinen', 'nie', 'ohne'],
+};
+
+// Words a negation can come before the request, as in "don't really want to talk to"
+const NEGATION_WINDOW = 3;
+
+// Words that on their own mean the caller is unhappy with how the call is going
+const negativeWords: Record<LanguageCode, string[]> = {
+  en: [
+    'useless', 'ridiculous', 'terrible', 'awful', 'horrible', 'worst', 'stupid', 'hate', 'angry', 'furious', 'frustrated', 'frustrating',
+    'annoyed', 'annoying', 'unacceptable', 'waste of time', 'not helpful', "isn't helping", 'not listening', 'fed up', 'sick of', 'pathetic',
+  ],
+  es: ['inútil', 'ridículo', 'terrible', 'horrible', 'pésimo', 'estúpido', 'odio', 'enfadado', 'harto', 'frustrado', 'inaceptable', 'pérdida de tiempo', 'no sirve'],
+  fr: ['inutile', 'ridicule', 'nul', 'horrible', 'pire', 'stupide', 'déteste', 'énervé', 'en colère', 'marre', 'frustré', 'inacceptable', 'perte de temps'],
+  de: ['nutzlos', 'lächerlich', 'furchtbar', 'schrecklich', 'schlimmste', 'dumm', 'hasse', 'wütend', 'sauer', 'genervt', 'frustriert', 'inakzeptabel', 'zeitverschwendung'],
+};
+
+const holdMessage: LocalizedText = {
+  en: "I'm connecting you with a member of our team now. Please hold for a moment; they'll have a summary of our conversation.",
+  es: 'Le paso ahora con una persona de nuestro equipo. Espere un momento, por favor; tendrá un resumen de nuestra conversación.',
+  fr: "Je vous mets en relation avec un membre de notre équipe. Merci de patienter un instant ; il aura un résumé de notre conversation.",
+  de: 'Ich verbinde Sie jetzt mit jemandem aus unserem Team. Bitte bleiben Sie kurz dran; Ihr Gespräch wird zusammengefasst übergeben.',
+};
+
+function splitWords(text: string): string[] {
+  return text.toLowerCase().split(/[^\p{L}\p{N}']+/u).filter(Boolean);
+}
+
+// Where each phrase occurs, as [first, last] word indexes
+function findPhrases(words: string[], phrases: string[]): Array<[number, number]> {
+  const found: Array<[number, number]> = [];
+  for (const phrase of phrases.map(splitWords)) {
+    for (let i = 0; i + phrase.length <= words.length; i++) {
+      if (phrase.every((word, j) => words[i + j] === word)) found.push([i, i + phrase.length - 1]);
+    }
+  }
+  return found;
+}
+
+// Where one of the verbs has one of the people next to it, with only filler words between; the first word index of each
+function findVerbsNearPeople(words: string[], verbs: string[], people: string[], language: LanguageCode): number[] {
+  const fillers = new Set(fillerWords[language]);
+  const found = findPhrases(words, people);
+  return findPhrases(words, verbs).flatMap(([first, last]) => {
+    let after = last + 1;
+    while (fillers.has(words[after])) after++;
+    let before = first - 1;
+    while (fillers.has(words[before])) before--;
+    return found
+      .filter(([start, end]) => start === after || (verbLastLanguages.includes(language) && end === before))
+      .map(([start]) => Math.min(first, start));
+  });
+}
+
+export function isHumanRequest(text: string, language: LanguageCode): boolean {
+  const languages = Array.from(new Set<LanguageCode>([language, 'en']));
+  const negations = new Set(languages.flatMap(lang => negationWords[lang]));
+  // Clause by clause, so the "no" in "No, I want a person" doesn't cancel the request
+  return text.split(/[,.;:!?¿¡]+/).some(clause => {
+    const words = splitWords(clause);
+    const isNegated = (start: number) => words.slice(Math.max(0, start - NEGATION_WINDOW), start).some(word => negations.has(word));
+    return languages.some(lang => [
+      ...findPhrases(words, personPhrases[lang]).map(([start]) => start),
+      ...findVerbsNearPeople(words, talkWords[lang], [...personWords[lang], ...anyoneWords[lang]], lang),
+      ...findVerbsNearPeople(words, askWords[lang], personWords[lang], lang),
+    ].some(start => !isNegated(start)));
+  });
+}
+
+export function isNegativeSentiment(text: string, language: LanguageCode): boolean {
+  return containsAny(text, negativeWords[language]) || containsAny(text, negativeWords.en);
+}
+
+// What the caller hears once the call is escalated
+export function describeHold(settings: EscalationSettings, language: LanguageCode): string {
+  return settings.holdMessages[language]?.trim() || localize(holdMessage, language);
+}
+
+// The turn's escalation, if any, and the signals the next turn picks up from
+export function checkEscalation(
+  message: string,
+  signals: EscalationSignals,
+  language: LanguageCode,
+  settings: EscalationSettings
+): { reason: EscalationReason | null; signals: EscalationSignals } {
+  const negativeTurns = isNegativeSentiment(message, language) ? signals.negativeTurns + 1 : 0;
+  const next = { ...signals, negativeTurns };
+  if (!settings.enabled) {
+    return { reason: null, signals: next };
+  }
+  if (isHumanRequest(message, language)) {
+    return { reason: 'requested', signals: next };
+  }
+  return { reason: negativeTurns >= settings.maxNegativeTurns ? 'negative-sentiment' : null, signals: next };
+}
+
+// The parts of a transcript line the summary reads; the call screen's messages fit as they are
+export interface HandoffTurn {
+  speaker: 'agent' | 'customer' | 'system';
+  text: string;
+  sources?: AnswerSource[];
+  toolInvocation?: ToolInvocation;
+}
+
+// What the operator needs to pick the call up without asking the caller to start over
+export interface HandoffSummary {
+  reason: EscalationReason;
+  language: LanguageCode;
+  // Intents the agent answered, by label
+  topics: string[];
+  // Order numbers, emails and reference numbers that came up, e.g. "Order number: 100198"
+  details: string[];
+  // The caller's last few turns, oldest first
+  recentCustomerTurns: string[];
+  // All of the above as one paragraph, for the operator view and notifications
+  text: string;
+  // ISO timestamp
+  createdAt: string;
+}
+
+const RECENT_CUSTOMER_TURNS = 3;
+
+const reasonDescriptions: Record<EscalationReason, string> = {
+  requested: 'Caller asked for a person',
+  'repeated-fallback': "The agent couldn't answer several times in a row",
+  'negative-sentiment': 'Caller sounds frustrated',
+};
+
+// Values worth passing on, from tool arguments and results and the flow in progress
+const detailLabels: Record<string, string> = {
+  orderNumber: 'Order number',
+  email: 'Email',
+  purchaseDate: 'Purchase date',
+  rmaNumber: 'RMA',
+  ticketId: 'Ticket',
+};
+
+function collectDetails(turns: HandoffTurn[], dialog: DialogState): string[] {
+  const values: Array<[string, unknown]> = [];
+  for (const { toolInvocation } of turns) {
+    if (!toolInvocation) continue;
+    const result = (toolInvocation.result ?? {}) as Record<string, unknown>;
+    values.push(...Object.entries(toolInvocation.args ?? {}), ...Object.entries(result));
+    values.push(...Object.entries((result.authorization ?? {}) as Record<string, unknown>));
+  }
+  if (dialog?.kind === 'flow') {
+    values.push(...Object.entries(dialog.slots));
+  }
+
+  const details = values
+    .filter(([key, value]) => detailLabels[key] && typeof value === 'string' && value)
+    .map(([key, value]) => `${detailLabels[key]}: ${value}`);
+  return Array.from(new Set(details));
+}
+
+// A handoff summary built from the transcript so far
+export function buildHandoffSummary(
+  turns: HandoffTurn[],
+  reason: EscalationReason,
+  language: LanguageCode,
+  dialog: DialogState = null,
+  now: Date = new Date()
+): HandoffSummary {
+  const topics = Array.from(new Set(turns
+    .flatMap(turn => turn.sources ?? [])
+    .flatMap(source => source.kind === 'intent' ? [source.label] : [])));
+  const details = collectDetails(turns, dialog);
+  const recentCustomerTurns = turns
+    .filter(turn => turn.speaker === 'customer' && turn.text.trim())
+    .slice(-RECENT_CUSTOMER_TURNS)
+    .map(turn => turn.text.trim());
+
+  const text = [
+    `${reasonDescriptions[reason]}.`,
+    language !== 'en' ? `Speaking ${SUPPORTED_LANGUAGES[language].name}.` : '',
+    topics.length ? `Topics so far: ${topics.join(', ')}.` : 'No topic answered yet.',
+    details.length ? `${details.join('; ')}.` : '',
+    recentCustomerTurns.length ? `Last said: "${recentCustomerTurns[recentCustomerTurns.length - 1]}"` : '',
+  ].filter(Boolean).join(' ');
+
+  return { reason, language, topics, details, recentCustomerTurns, text, createdAt: now.toISOString() };
+}
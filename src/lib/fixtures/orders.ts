@@ -0,0 +1,69 @@
+// Sample orders as a store's order API would return them, dated relative to today so they never go stale:
+// one on its way, one delivered inside the return window, one delivered long before it and one not shipped yet
+
+import { addDays, format } from 'date-fns';
+
+export function buildSampleOrders(now: Date = new Date()) {
+  // "YYYY-MM-DD" the given number of days from today
+  const day = (offset: number) => format(addDays(now, offset), 'yyyy-MM-dd');
+  // An ISO timestamp on that day, local time
+  const at = (offset: number, time: string) => new Date(`${day(offset)}T${time}`).toISOString();
+
+  return [
+    {
+      orderNumber: '100234',
+      email: 'jane@example.com',
+      status: 'in_transit',
+      placedAt: day(-7),
+      items: [
+        { sku: 'MUG-BLUE', name: 'Blue ceramic mug', quantity: 2, price: 14.5, category: 'kitchen' },
+      ],
+      shipment: {
+        carrier: 'UPS',
+        trackingNumber: '1Z999AA10123456784',
+        eta: day(2),
+        lastScan: { location: 'Louisville, Kentucky', at: at(-1, '21:40:00') },
+      },
+    },
+    {
+      orderNumber: '100198',
+      email: 'sam@example.com',
+      status: 'delivered',
+      placedAt: day(-18),
+      items: [
+        { sku: 'LAMP-OAK', name: 'Oak desk lamp', quantity: 1, price: 89, category: 'lighting' },
+        { sku: 'BULB-LED', name: 'LED bulb', quantity: 2, price: 6, category: 'clearance' },
+      ],
+      shipment: {
+        carrier: 'USPS',
+        trackingNumber: '9400111899223197428490',
+        deliveredAt: day(-14),
+        lastScan: { location: 'Portland, Oregon', at: at(-14, '15:12:00') },
+      },
+    },
+    {
+      orderNumber: '100087',
+      email: 'alex@example.com',
+      status: 'delivered',
+      placedAt: day(-60),
+      items: [
+        { sku: 'CHAIR-GRY', name: 'Grey office chair', quantity: 1, price: 249, category: 'furniture' },
+      ],
+      shipment: {
+        carrier: 'FedEx',
+        trackingNumber: '449044304137821',
+        deliveredAt: day(-55),
+        lastScan: { location: 'Austin, Texas', at: at(-55, '18:03:00') },
+      },
+    },
+    {
+      orderNumber: '100301',
+      email: 'jane@example.com',
+      status: 'processing',
+      placedAt: day(-1),
+      items: [
+        { sku: 'RUG-WOOL', name: 'Wool rug', quantity: 1, price: 179, category: 'home' },
+      ],
+    },
+  ];
+}
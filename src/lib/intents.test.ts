@@ -0,0 +1,80 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ZodError } from 'zod';
+import { DEFAULT_INTENTS, getIntents, intentListSchema, intentResponse, matchIntent, parseIntents, resetIntents, saveIntents } from './intents';
+
+let store: Map<string, string>;
+
+beforeEach(() => {
+  store = new Map<string, string>();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => store.get(key) ?? null,
+    setItem: (key: string, value: string) => store.set(key, value),
+    removeItem: (key: string) => store.delete(key),
+  });
+});
+
+const giftCards = { id: 'gift-cards', label: 'Gift cards', keywords: ['gift card'], response: { en: 'We sell gift cards in store.' } };
+
+describe('parseIntents', () => {
+  it('fills in the optional fields', () => {
+    const [intent] = parseIntents(JSON.stringify([giftCards]));
+    expect(intent).toMatchObject({ examples: [], required: [], excluded: [], priority: 0 });
+  });
+
+  it('rejects malformed documents with the field that is wrong', () => {
+    const invalid = [
+      [{ ...giftCards, id: 'Gift Cards' }, 'Use lowercase letters, numbers and dashes'],
+      [{ ...giftCards, response: { es: 'Vendemos tarjetas.' } }, 'Required'],
+      [[giftCards, giftCards], 'Duplicate intent ID "gift-cards"'],
+    ] as const;
+
+    for (const [document, message] of invalid) {
+      const json = JSON.stringify(Array.isArray(document) ? document : [document]);
+      expect(() => parseIntents(json)).toThrow(ZodError);
+      const result = intentListSchema.safeParse(JSON.parse(json));
+      expect(result.success ? [] : result.error.issues.map(issue => issue.message)).toContain(message);
+    }
+  });
+
+  it('throws on text that is not JSON', () => {
+    expect(() => parseIntents('not json')).toThrow(SyntaxError);
+  });
+});
+
+describe('stored intents', () => {
+  it('uses the bundled config until something is saved', () => {
+    expect(getIntents()).toBe(DEFAULT_INTENTS);
+    saveIntents([...DEFAULT_INTENTS, giftCards as never]);
+    expect(getIntents().map(intent => intent.id)).toContain('gift-cards');
+    resetIntents();
+    expect(getIntents()).toBe(DEFAULT_INTENTS);
+  });
+
+  it('falls back to the bundled config when the saved copy is corrupt', () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    store.set('ai-agent-intents', JSON.stringify([{ id: '' }]));
+    expect(getIntents()).toBe(DEFAULT_INTENTS);
+    expect(consoleError).toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+
+  it('refuses to save invalid intents', () => {
+    expect(() => saveIntents([{ ...DEFAULT_INTENTS[0], label: ' ' }])).toThrow(ZodError);
+    expect(store.size).toBe(0);
+  });
+});
+
+describe('matching', () => {
+  it('picks the intent whose rules fit and respects excluded terms', () => {
+    expect(matchIntent('What time do you close?')?.intent.id).toBe('hours');
+    expect(matchIntent('What time will my package arrive?')?.intent.id).toBe('tracking');
+    expect(matchIntent('Where is my order?')?.intent.id).toBe('order-status');
+    expect(matchIntent('Do you sell gift cards?')).toBeNull();
+  });
+
+  it('answers in the caller language and falls back to English', () => {
+    const hours = DEFAULT_INTENTS.find(intent => intent.id === 'hours');
+    expect(intentResponse(hours, 'es')).toBe(hours.response.es);
+    expect(intentResponse({ ...hours, response: { en: hours.response.en } }, 'de')).toBe(hours.response.en);
+  });
+});
@@ -0,0 +1,142 @@
+// FAQ intents: data-driven canned answers, seeded from intents.json and editable at runtime
+
+import { z } from 'zod';
+import defaultIntentConfig from './intents.json';
+import { DEFAULT_LANGUAGE, LanguageCode, LocalizedText, localize } from './languages';
+
+const INTENTS_STORAGE_KEY = 'ai-agent-intents';
+
+export const intentSchema = z.object({
+  id: z.string().trim().min(1, 'ID is required').regex(/^[a-z0-9-]+$/, 'Use lowercase letters, numbers and dashes'),
+  label: z.string().trim().min(1, 'Label is required'),
+  // Sample customer phrasings; an exact match always fires the intent
+  examples: z.array(z.string().trim().min(1)).default([]),
+  // At least one of these must appear
+  keywords: z.array(z.string().trim().min(1)).default([]),
+  // Every one of these must appear
+  required: z.array(z.string().trim().min(1)).default([]),
+  // None of these may appear
+  excluded: z.array(z.string().trim().min(1)).default([]),
+  // Higher wins when several intents match
+  priority: z.number().int().default(0),
+  response: z.object({
+    en: z.string().trim().min(1, 'An English response is required'),
+    es: z.string().optional(),
+    fr: z.string().optional(),
+    de: z.string().optional(),
+  }),
+  // Dialog flow to start after the response, e.g. to collect an order number
+  flow: z.string().optional(),
+});
+
+export type Intent = z.infer<typeof intentSchema>;
+
+export const intentListSchema = z.array(intentSchema).superRefine((intents, ctx) => {
+  const seen = new Set<string>();
+  intents.forEach((intent, index) => {
+    if (seen.has(intent.id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Duplicate intent ID "${intent.id}"`, path: [index, 'id'] });
+    }
+    seen.add(intent.id);
+  });
+});
+
+export const DEFAULT_INTENTS: Intent[] = intentListSchema.parse(defaultIntentConfig);
+
+// Why an intent fired, so editors can see which terms did the work
+export interface IntentMatch {
+  intent: Intent;
+  score: number;
+  matchedExample?: string;
+  matchedKeywords: string[];
+  matchedRequired: string[];
+}
+
+// Parse an intents JSON document (an array of intents), throwing a ZodError when it's malformed
+export function parseIntents(json: string): Intent[] {
+  return intentListSchema.parse(JSON.parse(json));
+}
+
+// Helper function to get the intents from localStorage, falling back to the bundled config
+export function getIntents(): Intent[] {
+  const saved = localStorage.getItem(INTENTS_STORAGE_KEY);
+  if (!saved) {
+    return DEFAULT_INTENTS;
+  }
+
+  try {
+    return parseIntents(saved);
+  } catch (error) {
+    console.error('Ignoring invalid saved intents:', error);
+    return DEFAULT_INTENTS;
+  }
+}
+
+// Helper function to persist intents to localStorage
+export function saveIntents(intents: Intent[]): void {
+  localStorage.setItem(INTENTS_STORAGE_KEY, JSON.stringify(intentListSchema.parse(intents)));
+}
+
+// Drop runtime edits and go back to the bundled config
+export function resetIntents(): void {
+  localStorage.removeItem(INTENTS_STORAGE_KEY);
+}
+
+// The intent's answer in the caller's language, or in English when it hasn't been translated
+export function intentResponse(intent: Intent, language: LanguageCode = DEFAULT_LANGUAGE): string {
+  return localize(intent.response as LocalizedText, language);
+}
+
+// Lowercase words separated by single spaces and padded, so terms can be matched at word starts
+function normalizeText(text: string): string {
+  const words = text.toLowerCase().split(/[^\p{L}\p{N}']+/u).filter(Boolean);
+  return ` ${words.join(' ')} `;
+}
+
+// Terms match at the start of a word, so "hour" also covers "hours"
+function findTerms(normalizedMessage: string, terms: string[]): string[] {
+  return terms.filter(term => {
+    const normalizedTerm = normalizeText(term).trimEnd();
+    return normalizedTerm.trim() !== '' && normalizedMessage.includes(normalizedTerm);
+  });
+}
+
+// Excluded terms veto an intent whichever matcher is in use
+export function hasExcludedTerm(message: string, intent: Intent): boolean {
+  return findTerms(normalizeText(message), intent.excluded).length > 0;
+}
+
+// Score one intent against a message; null when its rules rule it out
+export function scoreIntent(message: string, intent: Intent): IntentMatch | null {
+  if (hasExcludedTerm(message, intent)) {
+    return null;
+  }
+
+  const normalizedMessage = normalizeText(message);
+
+  const matchedExample = intent.examples.find(example => normalizeText(example) === normalizedMessage);
+  const matchedKeywords = findTerms(normalizedMessage, intent.keywords);
+  const matchedRequired = findTerms(normalizedMessage, intent.required);
+
+  if (!matchedExample) {
+    if (matchedRequired.length < intent.required.length) return null;
+    if (intent.keywords.length > 0 && matchedKeywords.length === 0) return null;
+    if (intent.keywords.length === 0 && intent.required.length === 0) return null;
+  }
+
+  const score = (matchedExample ? intent.keywords.length + intent.required.length + 1 : 0) + matchedKeywords.length + matchedRequired.length;
+  return { intent, score, matchedExample, matchedKeywords, matchedRequired };
+}
+
+// Every intent that matches the message, best first: highest priority, then most terms matched, then list order
+export function rankIntents(message: string, intents: Intent[] = getIntents()): IntentMatch[] {
+  return intents
+    .map(intent => scoreIntent(message, intent))
+    .filter((match): match is IntentMatch => match !== null)
+    .sort((a, b) => b.intent.priority - a.intent.priority || b.score - a.score);
+}
+
+// The intent a message should fire, if any
+export function matchIntent(message: string, intents: Intent[] = getIntents()): IntentMatch | null {
+  return rankIntents(message, intents)[0] ?? null;
+}
@@ -0,0 +1,39 @@
+// Languages the agent can detect and answer in
+
+export type LanguageCode = 'en' | 'es' | 'fr' | 'de';
+
+export const DEFAULT_LANGUAGE: LanguageCode = 'en';
+
+export const SUPPORTED_LANGUAGES: Record<LanguageCode, { name: string; locale: string }> = {
+  en: { name: 'English', locale: 'en-US' },
+  es: { name: 'Spanish', locale: 'es-ES' },
+  fr: { name: 'French', locale: 'fr-FR' },
+  de: { name: 'German', locale: 'de-DE' },
+};
+
+// Names as Whisper's verbose_json reports them
+const languageNames: Record<string, LanguageCode> = {
+  english: 'en',
+  spanish: 'es',
+  french: 'fr',
+  german: 'de',
+};
+
+// Map an ISO code, locale ('es-MX') or language name ('spanish') to a supported language
+export function normalizeLanguage(value?: string | null): LanguageCode | undefined {
+  if (!value) return undefined;
+  const lower = value.toLowerCase().trim();
+  if (languageNames[lower]) {
+    return languageNames[lower];
+  }
+  const code = lower.split(/[-_]/)[0];
+  return code in SUPPORTED_LANGUAGES ? (code as LanguageCode) : undefined;
+}
+
+// Text with an English original and optional translations
+export type LocalizedText = { en: string } & Partial<Record<LanguageCode, string>>;
+
+// The text in the given language, or in English when it hasn't been translated
+export function localize(text: LocalizedText, language: LanguageCode = DEFAULT_LANGUAGE): string {
+  return text[language]?.trim() || text.en;
+}
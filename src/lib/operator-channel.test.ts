@@ -0,0 +1,54 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createRelayMessage, LiveCall, OperatorEvent, openRelayMessage, postCallUpdate, subscribeToOperatorEvents } from './operator-channel';
+import { DEFAULT_AGENT_SETTINGS } from './settings';
+
+beforeEach(() => {
+  vi.stubGlobal('localStorage', {
+    getItem: () => JSON.stringify(DEFAULT_AGENT_SETTINGS),
+    setItem: () => {},
+    removeItem: () => {},
+  });
+});
+
+const call = (text: string): LiveCall => ({
+  sessionId: '1',
+  status: 'active',
+  language: 'en',
+  startTime: '2026-10-19T10:00:00.000Z',
+  messages: [{ id: 'a', speaker: 'agent', text, timestamp: '2026-10-19T10:00:01.000Z' }],
+});
+
+describe('postCallUpdate', () => {
+  it('sends a burst of updates as one, with the latest transcript', async () => {
+    const received: OperatorEvent[] = [];
+    const unsubscribe = subscribeToOperatorEvents(event => received.push(event));
+
+    ['Our', 'Our hours', 'Our hours are nine to five.'].forEach(text => postCallUpdate(call(text)));
+    await vi.waitFor(() => expect(received).toHaveLength(1), { timeout: 2000 });
+    await new Promise(resolve => setTimeout(resolve, 600));
+    unsubscribe();
+
+    expect(received).toEqual([expect.objectContaining({ type: 'call-updated', call: call('Our hours are nine to five.') })]);
+  });
+});
+
+describe('relay messages', () => {
+  const reply = { type: 'operator-reply' as const, sessionId: '1', text: 'Your refund is on its way.', eventId: 'e1' };
+  const now = Date.parse('2026-10-19T10:00:00Z');
+
+  it('opens a message signed with the same token', async () => {
+    const message = await createRelayMessage(reply, 'shared-secret', now);
+    expect(message).not.toContain('shared-secret');
+    expect(await openRelayMessage(message, 'shared-secret', now + 1000)).toEqual(reply);
+  });
+
+  it('drops messages with the wrong token, a changed body, no signature or an old timestamp', async () => {
+    const message = await createRelayMessage(reply, 'shared-secret', now);
+    const tampered = JSON.stringify({ ...JSON.parse(message), body: JSON.stringify({ ...reply, text: 'Send me your password.' }) });
+
+    expect(await openRelayMessage(message, 'other-secret', now)).toBeNull();
+    expect(await openRelayMessage(tampered, 'shared-secret', now)).toBeNull();
+    expect(await openRelayMessage(JSON.stringify(reply), 'shared-secret', now)).toBeNull();
+    expect(await openRelayMessage(message, 'shared-secret', now + 5 * 60 * 1000)).toBeNull();
+  });
+});
@@ -0,0 +1,249 @@
+// Live calls and escalations shared with operator consoles: over a BroadcastChannel for tabs in this browser,
+// and through a WebSocket relay when one is configured. Relay messages are signed with a shared token, since
+// anyone who can reach the relay could otherwise take calls over and put words in the agent's mouth
+
+import type { HandoffSummary } from './escalation';
+import type { AnswerSource } from './ai-services';
+import type { ToolInvocation } from './tools';
+import type { ReturnAuthorization } from './returns';
+import { LanguageCode } from './languages';
+import { getAgentSettings } from './settings';
+
+const OPERATOR_CHANNEL_NAME = 'ai-agent-operator';
+const ESCALATIONS_STORAGE_KEY = 'ai-agent-escalations';
+
+// Wait before reconnecting to a relay that dropped
+const RELAY_RECONNECT_MS = 3000;
+
+// Signed relay messages older than this are dropped, so a recorded take-over or reply can't be replayed later
+const RELAY_MAX_AGE_MS = 60000;
+
+// Events seen recently, so one that arrives over both transports is only handled once
+const MAX_SEEN_EVENTS = 200;
+
+// Call updates are sent at most this often; streamed replies change the transcript on every token
+const CALL_UPDATE_INTERVAL_MS = 500;
+
+// A call the agent handed over
+export interface EscalatedCall {
+  sessionId: string;
+  summary: HandoffSummary;
+  // ISO timestamp, once an operator has dealt with it
+  resolvedAt?: string;
+}
+
+// A transcript line as it travels to the console; timestamps are ISO strings so they survive JSON
+export interface LiveCallMessage {
+  id: string;
+  speaker: 'agent' | 'customer' | 'system';
+  text: string;
+  timestamp: string;
+  isStreaming?: boolean;
+  language?: LanguageCode;
+  sources?: AnswerSource[];
+  toolInvocation?: ToolInvocation;
+  fromOperator?: boolean;
+}
+
+// A call as an operator console sees it
+export interface LiveCall {
+  sessionId: string;
+  // 'operator' while a person has taken the call over from the agent
+  status: 'active' | 'escalated' | 'operator' | 'ended';
+  language: LanguageCode;
+  startTime: string;
+  endTime?: string;
+  messages: LiveCallMessage[];
+  returns?: ReturnAuthorization[];
+  handoff?: HandoffSummary;
+}
+
+// Call tabs send escalations and call updates; consoles send the rest
+export type OperatorEvent =
+  | { type: 'escalated'; call: EscalatedCall }
+  | { type: 'resolved'; sessionId: string; resolvedAt: string }
+  | { type: 'call-updated'; call: LiveCall }
+  // A console that just opened asks calls in progress to announce themselves
+  | { type: 'list-calls' }
+  | { type: 'take-over'; sessionId: string }
+  | { type: 'operator-reply'; sessionId: string; text: string }
+  | { type: 'hand-back'; sessionId: string };
+
+type OperatorEnvelope = OperatorEvent & { eventId: string };
+
+// What travels over the relay: the envelope as JSON, and an HMAC-SHA256 of the send time and that JSON
+interface RelayMessage {
+  body: string;
+  sentAt: number;
+  signature: string;
+}
+
+type OperatorListener = (event: OperatorEvent) => void;
+
+// Helper function to get escalated calls from localStorage, newest first
+export function getEscalatedCalls(): EscalatedCall[] {
+  const saved = localStorage.getItem(ESCALATIONS_STORAGE_KEY);
+  return saved ? JSON.parse(saved) : [];
+}
+
+function saveEscalatedCalls(calls: EscalatedCall[]): void {
+  localStorage.setItem(ESCALATIONS_STORAGE_KEY, JSON.stringify(calls));
+}
+
+const relayKeys = new Map<string, Promise<CryptoKey>>();
+
+function relayKey(token: string): Promise<CryptoKey> {
+  if (!relayKeys.has(token)) {
+    const secret = new TextEncoder().encode(token);
+    relayKeys.set(token, crypto.subtle.importKey('raw', secret, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']));
+  }
+  return relayKeys.get(token)!;
+}
+
+const signedText = (sentAt: number, body: string) => new TextEncoder().encode(`${sentAt}.${body}`);
+
+// Sign an event for the relay; the token itself never goes over the wire
+export async function createRelayMessage(envelope: OperatorEnvelope, token: string, now = Date.now()): Promise<string> {
+  const body = JSON.stringify(envelope);
+  const signature = await crypto.subtle.sign('HMAC', await relayKey(token), signedText(now, body));
+  const message: RelayMessage = { body, sentAt: now, signature: btoa(String.fromCharCode(...new Uint8Array(signature))) };
+  return JSON.stringify(message);
+}
+
+// The event in a relay message, or null when it isn't signed with the token or is too old to trust
+export async function openRelayMessage(data: string, token: string, now = Date.now()): Promise<OperatorEnvelope | null> {
+  try {
+    const { body, sentAt, signature } = JSON.parse(data) as RelayMessage;
+    if (typeof body !== 'string' || typeof sentAt !== 'number' || typeof signature !== 'string') return null;
+    if (Math.abs(now - sentAt) > RELAY_MAX_AGE_MS) return null;
+    const signatureBytes = Uint8Array.from(atob(signature), character => character.charCodeAt(0));
+    const valid = await crypto.subtle.verify('HMAC', await relayKey(token), signatureBytes, signedText(sentAt, body));
+    return valid ? JSON.parse(body) as OperatorEnvelope : null;
+  } catch {
+    return null;
+  }
+}
+
+// The relay connection is shared by every listener in the tab and reopened when it drops
+const relayListeners = new Set<(event: OperatorEnvelope) => void>();
+let relay: { url: string; token: string; socket: WebSocket; pending: string[] } | null = null;
+// Sends wait on signing, so they're chained to go out in order
+let relaySends: Promise<void> = Promise.resolve();
+
+function connectRelay(): typeof relay {
+  const { relayUrl, relayToken } = getAgentSettings().operator;
+  const url = relayUrl.trim();
+  const token = relayToken.trim();
+  if (!url || typeof WebSocket === 'undefined') return null;
+  if (!token) {
+    console.warn('Operator relay is configured without a token, so it stays off');
+    return null;
+  }
+  if (relay?.url === url && relay.token === token && relay.socket.readyState <= WebSocket.OPEN) return relay;
+
+  relay?.socket.close();
+  const socket = new WebSocket(url);
+  const connection = { url, token, socket, pending: [] as string[] };
+  socket.onopen = () => {
+    connection.pending.splice(0).forEach(message => socket.send(message));
+  };
+  socket.onmessage = async (message: MessageEvent<string>) => {
+    const event = await openRelayMessage(message.data, token);
+    if (!event) {
+      console.warn('Ignoring an operator relay message that is unsigned, wrongly signed or stale');
+      return;
+    }
+    relayListeners.forEach(listener => listener(event));
+  };
+  socket.onclose = () => {
+    if (relay === connection && relayListeners.size > 0) {
+      setTimeout(connectRelay, RELAY_RECONNECT_MS);
+    }
+  };
+  socket.onerror = () => console.error(`Operator relay ${url} is unreachable`);
+  relay = connection;
+  return relay;
+}
+
+// Opened once and kept for the tab's lifetime; missing in some embedded browsers, where the relay and the stored escalations still work
+let outgoingChannel: BroadcastChannel | null = null;
+
+function getOutgoingChannel(): BroadcastChannel | null {
+  if (!outgoingChannel && typeof BroadcastChannel !== 'undefined') {
+    outgoingChannel = new BroadcastChannel(OPERATOR_CHANNEL_NAME);
+  }
+  return outgoingChannel;
+}
+
+// Send an event to every console and call tab, here and through the relay
+export function postOperatorEvent(event: OperatorEvent): void {
+  const envelope: OperatorEnvelope = { ...event, eventId: crypto.randomUUID() };
+  getOutgoingChannel()?.postMessage(envelope);
+
+  // Held until the relay connects, so an event sent right after opening the page isn't lost
+  const connection = connectRelay();
+  if (!connection) return;
+  relaySends = relaySends
+    .then(() => createRelayMessage(envelope, connection.token))
+    .then(message => {
+      if (connection.socket.readyState === WebSocket.OPEN) {
+        connection.socket.send(message);
+      } else {
+        connection.pending.push(message);
+      }
+    })
+    .catch(error => console.error('Error signing operator relay message:', error));
+}
+
+// Only the latest state of each call is kept until the next send
+const pendingCallUpdates = new Map<string, LiveCall>();
+let callUpdateTimer: ReturnType<typeof setTimeout> | null = null;
+
+// Tell consoles about a change to a call, coalescing bursts like a streamed reply into one update
+export function postCallUpdate(call: LiveCall): void {
+  pendingCallUpdates.set(call.sessionId, call);
+  if (callUpdateTimer) return;
+  callUpdateTimer = setTimeout(() => {
+    callUpdateTimer = null;
+    const calls = Array.from(pendingCallUpdates.values());
+    pendingCallUpdates.clear();
+    calls.forEach(pending => postOperatorEvent({ type: 'call-updated', call: pending }));
+  }, CALL_UPDATE_INTERVAL_MS);
+}
+
+// Listen for events from other tabs and the relay; returns the unsubscribe function
+export function subscribeToOperatorEvents(listener: OperatorListener): () => void {
+  const seen = new Set<string>();
+  const deliver = (event: OperatorEnvelope) => {
+    if (seen.has(event.eventId)) return;
+    seen.add(event.eventId);
+    if (seen.size > MAX_SEEN_EVENTS) {
+      seen.delete(seen.values().next().value);
+    }
+    listener(event);
+  };
+
+  const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(OPERATOR_CHANNEL_NAME) : null;
+  if (channel) {
+    channel.onmessage = (message: MessageEvent<OperatorEnvelope>) => deliver(message.data);
+  }
+  relayListeners.add(deliver);
+  connectRelay();
+
+  return () => {
+    channel?.close();
+    relayListeners.delete(deliver);
+  };
+}
+
+// Queue the call for an operator and tell any open console
+export function notifyOperators(call: EscalatedCall): void {
+  saveEscalatedCalls([call, ...getEscalatedCalls().filter(existing => existing.sessionId !== call.sessionId)]);
+  postOperatorEvent({ type: 'escalated', call });
+}
+
+export function resolveEscalatedCall(sessionId: string): void {
+  const resolvedAt = new Date().toISOString();
+  saveEscalatedCalls(getEscalatedCalls().map(call => call.sessionId === sessionId ? { ...call, resolvedAt } : call));
+  postOperatorEvent({ type: 'resolved', sessionId, resolvedAt });
+}
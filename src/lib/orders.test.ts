@@ -0,0 +1,41 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { findOrder, getSampleOrders } from './orders';
+import { DEFAULT_AGENT_SETTINGS, OrderLookupSettings } from './settings';
+
+const sample = DEFAULT_AGENT_SETTINGS.orders;
+const api = (endpoint: string): OrderLookupSettings => ({ ...sample, source: 'api', endpoint });
+
+const respondWith = (body: unknown) => {
+  vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify(body), { status: 200 })));
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('findOrder', () => {
+  it('only returns a sample order to the email it was placed with', async () => {
+    expect(await findOrder('100234', '', sample)).toBeNull();
+    expect(await findOrder('100234', 'sam@example.com', sample)).toBeNull();
+    expect(await findOrder('100234', ' Jane@Example.com ', sample)).toMatchObject({ orderNumber: '100234' });
+  });
+
+  it("checks the email in the API's response", async () => {
+    respondWith({ orderNumber: '1', email: 'sam@example.com', status: 'shipped' });
+    expect(await findOrder('1', 'jane@example.com', api('https://shop.test/orders/{orderNumber}'))).toBeNull();
+  });
+
+  it("trusts the API to check the email only when it's sent the email", async () => {
+    respondWith({ orderNumber: '1', status: 'shipped' });
+    expect(await findOrder('1', 'jane@example.com', api('https://shop.test/orders/{orderNumber}'))).toBeNull();
+    expect(await findOrder('1', 'jane@example.com', api('https://shop.test/orders/{orderNumber}?email={email}'))).toMatchObject({ orderNumber: '1' });
+  });
+});
+
+describe('getSampleOrders', () => {
+  it('dates the sample orders relative to now', () => {
+    const orders = getSampleOrders(new Date(2030, 0, 15, 9, 30));
+    expect(orders.find(order => order.orderNumber === '100198')).toMatchObject({ status: 'delivered', deliveredAt: '2030-01-01' });
+    expect(orders.find(order => order.orderNumber === '100234')).toMatchObject({ status: 'shipped', estimatedDelivery: '2030-01-17' });
+  });
+});
@@ -0,0 +1,241 @@
+// Customer orders, looked up by the agent's tools from the sample orders or the store's order API
+
+import { buildSampleOrders } from './fixtures/orders';
+import { DEFAULT_AGENT_SETTINGS, OrderFieldMap, OrderLookupSettings } from './settings';
+import { LanguageCode, LocalizedText, localize, SUPPORTED_LANGUAGES } from './languages';
+import { fillTemplate } from './utils';
+
+export type OrderStatus = 'processing' | 'shipped' | 'delivered' | 'cancelled';
+
+export interface OrderItem {
+  sku: string;
+  name: string;
+  quantity: number;
+  price: number;
+  // Used by the return policy's excluded categories
+  category?: string;
+}
+
+export interface Order {
+  orderNumber: string;
+  email: string;
+  status: OrderStatus;
+  // ISO dates
+  placedAt: string;
+  estimatedDelivery?: string;
+  deliveredAt?: string;
+  carrier?: string;
+  trackingNumber?: string;
+  // Where the carrier last scanned the parcel
+  lastScanLocation?: string;
+  items: OrderItem[];
+}
+
+// Status words order systems commonly use, mapped onto the ones the agent knows
+const STATUS_ALIASES: Record<string, OrderStatus> = {
+  pending: 'processing',
+  processing: 'processing',
+  confirmed: 'processing',
+  paid: 'processing',
+  fulfilled: 'shipped',
+  shipped: 'shipped',
+  in_transit: 'shipped',
+  out_for_delivery: 'shipped',
+  delivered: 'delivered',
+  cancelled: 'cancelled',
+  canceled: 'cancelled',
+};
+
+// Read a dot path like "shipment.lastScan.location" out of a JSON response
+function readPath(source: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>(
+    (value, key) => (value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+    source
+  );
+}
+
+const readString = (source: unknown, path: string) => {
+  const value = readPath(source, path);
+  return value === undefined || value === null || value === '' ? undefined : String(value);
+};
+
+// Turn one order from the API (or the sample file) into an Order using the configured field paths
+export function mapOrder(raw: unknown, fieldMap: OrderFieldMap): Order {
+  const status = readString(raw, fieldMap.status)?.toLowerCase().replace(/[\s-]+/g, '_');
+  if (!status || !STATUS_ALIASES[status]) {
+    throw new Error(`Unrecognized order status: ${status ?? '(missing)'}`);
+  }
+
+  const items = readPath(raw, fieldMap.items);
+  return {
+    orderNumber: readString(raw, fieldMap.orderNumber) ?? '',
+    email: readString(raw, fieldMap.email) ?? '',
+    status: STATUS_ALIASES[status],
+    placedAt: readString(raw, fieldMap.placedAt) ?? '',
+    estimatedDelivery: readString(raw, fieldMap.estimatedDelivery),
+    deliveredAt: readString(raw, fieldMap.deliveredAt),
+    carrier: readString(raw, fieldMap.carrier),
+    trackingNumber: readString(raw, fieldMap.trackingNumber),
+    lastScanLocation: readString(raw, fieldMap.lastScanLocation),
+    items: Array.isArray(items) ? (items as OrderItem[]) : [],
+  };
+}
+
+// The sample orders, dated relative to now
+export function getSampleOrders(now: Date = new Date()): Order[] {
+  return buildSampleOrders(now).map(raw => mapOrder(raw, DEFAULT_AGENT_SETTINGS.orders.fieldMap));
+}
+
+// The lookup URL for an order, with the placeholders filled in
+export function orderLookupUrl(settings: OrderLookupSettings, orderNumber: string, email: string): string {
+  return settings.endpoint
+    .replace(/\{orderNumber\}/g, encodeURIComponent(orderNumber))
+    .replace(/\{email\}/g, encodeURIComponent(email));
+}
+
+async function fetchOrder(orderNumber: string, email: string, settings: OrderLookupSettings, apiKey: string): Promise<Order | null> {
+  const response = await fetch(orderLookupUrl(settings, orderNumber, email), {
+    headers: apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {},
+  });
+  if (response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error(`Order API error: ${response.status} ${response.statusText}`);
+  }
+  const order = mapOrder(await response.json(), settings.fieldMap);
+  // Not every API echoes the number back
+  return { ...order, orderNumber: order.orderNumber || orderNumber };
+}
+
+// Look an order up by number and the email it was placed with; both have to match, so callers can't probe other
+// customers' orders. An API that leaves the email out of its response must check it itself, through {email} in the endpoint
+export async function findOrder(
+  orderNumber: string,
+  email: string,
+  settings: OrderLookupSettings,
+  apiKey = ''
+): Promise<Order | null> {
+  const normalized = orderNumber.trim().toUpperCase();
+  const normalizedEmail = email.trim().toLowerCase();
+  if (!normalizedEmail) {
+    return null;
+  }
+
+  const order = settings.source === 'api'
+    ? await fetchOrder(normalized, normalizedEmail, settings, apiKey)
+    : getSampleOrders().find(candidate => candidate.orderNumber === normalized) ?? null;
+  if (!order) {
+    return null;
+  }
+
+  const checkedByApi = settings.source === 'api' && settings.endpoint.includes('{email}');
+  const emailMatches = order.email ? order.email.toLowerCase() === normalizedEmail : checkedByApi;
+  return emailMatches ? order : null;
+}
+
+// Placeholders a response template can use
+export const ORDER_TEMPLATE_FIELDS = ['orderNumber', 'status', 'carrier', 'trackingNumber', 'eta', 'deliveredOn', 'lastScanLocation'] as const;
+
+const statusWords: Record<OrderStatus, LocalizedText> = {
+  processing: { en: 'being prepared', es: 'en preparación', fr: 'en préparation', de: 'in Vorbereitung' },
+  shipped: { en: 'on its way', es: 'en camino', fr: 'en route', de: 'unterwegs' },
+  delivered: { en: 'delivered', es: 'entregado', fr: 'livrée', de: 'zugestellt' },
+  cancelled: { en: 'cancelled', es: 'cancelado', fr: 'annulée', de: 'storniert' },
+};
+
+// Built-in replies for each status; sentences whose placeholders have no value are dropped
+const builtInReplies: Record<OrderStatus, LocalizedText[]> = {
+  processing: [{
+    en: "Order {orderNumber} is being prepared and hasn't shipped yet. You'll get an email with tracking as soon as it does.",
+    es: 'El pedido {orderNumber} se está preparando y aún no se ha enviado. Recibirá un correo con el seguimiento en cuanto salga.',
+    fr: "La commande {orderNumber} est en préparation et n'a pas encore été expédiée. Vous recevrez un e-mail de suivi dès son envoi.",
+    de: 'Die Bestellung {orderNumber} wird vorbereitet und ist noch nicht versandt. Sobald sie unterwegs ist, bekommen Sie eine E-Mail mit der Sendungsverfolgung.',
+  }],
+  shipped: [
+    {
+      en: 'Order {orderNumber} is on its way with {carrier}.',
+      es: 'El pedido {orderNumber} está en camino con {carrier}.',
+      fr: 'La commande {orderNumber} est en route avec {carrier}.',
+      de: 'Die Bestellung {orderNumber} ist mit {carrier} unterwegs.',
+    },
+    {
+      en: 'It was last scanned in {lastScanLocation}.',
+      es: 'Se escaneó por última vez en {lastScanLocation}.',
+      fr: 'Elle a été scannée pour la dernière fois à {lastScanLocation}.',
+      de: 'Zuletzt wurde sie in {lastScanLocation} gescannt.',
+    },
+    {
+      en: 'It should arrive by {eta}.',
+      es: 'Debería llegar el {eta}.',
+      fr: 'Elle devrait arriver le {eta}.',
+      de: 'Sie sollte bis {eta} ankommen.',
+    },
+  ],
+  delivered: [{
+    en: 'Order {orderNumber} was delivered on {deliveredOn}.',
+    es: 'El pedido {orderNumber} se entregó el {deliveredOn}.',
+    fr: 'La commande {orderNumber} a été livrée le {deliveredOn}.',
+    de: 'Die Bestellung {orderNumber} wurde am {deliveredOn} zugestellt.',
+  }],
+  cancelled: [{
+    en: 'Order {orderNumber} was cancelled. If that was a mistake, I can open a ticket for the team.',
+    es: 'El pedido {orderNumber} fue cancelado. Si fue un error, puedo abrir una incidencia para el equipo.',
+    fr: "La commande {orderNumber} a été annulée. Si c'est une erreur, je peux ouvrir un ticket pour l'équipe.",
+    de: 'Die Bestellung {orderNumber} wurde storniert. Falls das ein Versehen war, kann ich ein Ticket für das Team anlegen.',
+  }],
+};
+
+// Used when the API left out everything a built-in reply needs, like a delivery date
+const plainStatusReply: LocalizedText = {
+  en: 'Order {orderNumber} is {status}.',
+  es: 'El pedido {orderNumber} está {status}.',
+  fr: 'La commande {orderNumber} est {status}.',
+  de: 'Die Bestellung {orderNumber} ist {status}.',
+};
+
+const notFoundReply: LocalizedText = {
+  en: "I couldn't find order {orderNumber} under {email}. Please check the number in your confirmation email, or ask me to open a ticket.",
+  es: 'No encuentro el pedido {orderNumber} con el correo {email}. Compruebe el número en su correo de confirmación o pídame que abra una incidencia.',
+  fr: "Je ne trouve pas la commande {orderNumber} pour {email}. Vérifiez le numéro dans votre e-mail de confirmation, ou demandez-moi d'ouvrir un ticket.",
+  de: 'Ich finde die Bestellung {orderNumber} unter {email} nicht. Bitte prüfen Sie die Nummer in Ihrer Bestätigungs-E-Mail oder lassen Sie mich ein Ticket anlegen.',
+};
+
+// Dates as a caller would say them, e.g. "Wednesday, October 21"
+export function formatSpokenDate(date: string | undefined, language: LanguageCode): string | undefined {
+  if (!date) return undefined;
+  // Plain dates are read at midday so the time zone can't move them to the day before
+  const parsed = new Date(/^\d{4}-\d{2}-\d{2}$/.test(date) ? `${date}T12:00:00` : date);
+  if (isNaN(parsed.getTime())) return date;
+  return parsed.toLocaleDateString(SUPPORTED_LANGUAGES[language].locale, { weekday: 'long', month: 'long', day: 'numeric' });
+}
+
+export function orderTemplateValues(order: Order, language: LanguageCode): Record<(typeof ORDER_TEMPLATE_FIELDS)[number], string | undefined> {
+  return {
+    orderNumber: order.orderNumber,
+    status: localize(statusWords[order.status], language),
+    carrier: order.carrier,
+    trackingNumber: order.trackingNumber,
+    eta: formatSpokenDate(order.estimatedDelivery, language),
+    deliveredOn: formatSpokenDate(order.deliveredAt, language),
+    lastScanLocation: order.lastScanLocation,
+  };
+}
+
+// What the agent says about an order: the configured template for the language, or the built-in reply
+export function describeOrder(order: Order, language: LanguageCode, settings: OrderLookupSettings): string {
+  const values = orderTemplateValues(order, language);
+  const template = settings.responseTemplates[language]?.trim();
+  if (template) {
+    return fillTemplate(template, values);
+  }
+
+  const sentences = builtInReplies[order.status]
+    .map(sentence => localize(sentence, language))
+    .filter(sentence => Array.from(sentence.matchAll(/\{(\w+)\}/g)).every(([, name]) => values[name as keyof typeof values]));
+  return fillTemplate(sentences.length ? sentences.join(' ') : localize(plainStatusReply, language), values);
+}
+
+export function describeMissingOrder(orderNumber: string, email: string, language: LanguageCode): string {
+  return fillTemplate(localize(notFoundReply, language), { orderNumber, email });
+}
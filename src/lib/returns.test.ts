@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { getSampleOrders, Order } from './orders';
+import { checkReturnEligibility, DEFAULT_RETURN_POLICY, describeDateConflict, describeIneligibleReturn } from './returns';
+
+// Every date in these tests counts from here, never from the real clock
+const now = new Date(2030, 0, 15, 9, 30);
+const orders = getSampleOrders(now);
+const order = (orderNumber: string) => orders.find(candidate => candidate.orderNumber === orderNumber)!;
+const check = (checked: Order, purchaseDate?: string) =>
+  checkReturnEligibility(checked, { purchaseDate, originalCondition: true }, DEFAULT_RETURN_POLICY, now);
+
+describe('checkReturnEligibility', () => {
+  it('counts the window from delivery', () => {
+    expect(check(order('100198'))).toMatchObject({ eligible: true, windowStart: '2030-01-01', daysLeft: 16 });
+    expect(check(order('100087'))).toMatchObject({ eligible: false, reason: 'window-expired', windowStart: '2029-11-21' });
+  });
+
+  it("uses the caller's date when the order shows no delivery", () => {
+    const undated = { ...order('100198'), deliveredAt: undefined };
+    expect(check(undated, '2029-12-20')).toMatchObject({ eligible: true, windowStart: '2029-12-20', daysLeft: 4 });
+    expect(check(undated, '2029-12-20').conflictingPurchaseDate).toBeUndefined();
+  });
+
+  it('accepts the purchase date or the delivery date as the answer', () => {
+    // Ordered 2029-12-28, delivered 2030-01-01
+    expect(check(order('100198'), '2029-12-28')).toMatchObject({ eligible: true, windowStart: '2030-01-01', daysLeft: 16 });
+    expect(check(order('100198'), '2029-12-28').conflictingPurchaseDate).toBeUndefined();
+    expect(check(order('100198'), '2029-12-30').conflictingPurchaseDate).toBeUndefined();
+    expect(describeDateConflict(order('100198'), check(order('100198'), '2030-01-01'), 'en')).toBe('');
+  });
+
+  it("reports a caller's date from outside the order and delivery dates", () => {
+    const eligibility = check(order('100198'), '2029-11-01');
+    expect(eligibility).toMatchObject({ eligible: true, windowStart: '2030-01-01', conflictingPurchaseDate: '2029-11-01' });
+    expect(describeDateConflict(order('100198'), eligibility, 'en')).toMatch(/delivered on .*January 1.*, not .*November 1/);
+    expect(check(order('100198'), '2030-01-10').conflictingPurchaseDate).toBe('2030-01-10');
+
+    const expired = check(order('100087'), '2030-01-10');
+    expect(describeIneligibleReturn(order('100087'), expired, DEFAULT_RETURN_POLICY, 'en')).toMatch(/^Our records show order 100087 was delivered/);
+  });
+});
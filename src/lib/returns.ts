@@ -0,0 +1,297 @@
+// Return policy rules applied to an order, and the return authorizations (RMAs) the agent issues, persisted in localStorage
+
+import { formatSpokenDate, Order, OrderItem } from './orders';
+import { LanguageCode, LocalizedText, localize } from './languages';
+import { fillTemplate } from './utils';
+
+const RETURN_POLICY_STORAGE_KEY = 'ai-agent-return-policy';
+const RETURNS_STORAGE_KEY = 'ai-agent-returns';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ReturnPolicy {
+  // Days after delivery (or purchase, for orders we can't find) that items can still be returned
+  windowDays: number;
+  // Only unused items in their original packaging can go back
+  requireOriginalCondition: boolean;
+  // Item categories that can never be returned, matched case-insensitively
+  excludedCategories: string[];
+}
+
+export const DEFAULT_RETURN_POLICY: ReturnPolicy = {
+  windowDays: 30,
+  requireOriginalCondition: true,
+  excludedCategories: ['clearance', 'gift cards', 'personalized'],
+};
+
+// Helper function to get the return policy from localStorage, filling in defaults
+export function getReturnPolicy(): ReturnPolicy {
+  const saved = localStorage.getItem(RETURN_POLICY_STORAGE_KEY);
+  return saved ? { ...DEFAULT_RETURN_POLICY, ...JSON.parse(saved) } : DEFAULT_RETURN_POLICY;
+}
+
+export function saveReturnPolicy(policy: ReturnPolicy): void {
+  localStorage.setItem(RETURN_POLICY_STORAGE_KEY, JSON.stringify(policy));
+}
+
+export type ReturnEligibilityReason =
+  | 'eligible'
+  | 'not-shipped'
+  | 'in-transit'
+  | 'cancelled'
+  | 'window-expired'
+  | 'condition'
+  | 'excluded-category';
+
+export interface ReturnEligibility {
+  eligible: boolean;
+  reason: ReturnEligibilityReason;
+  // Days left in the return window, once the order has been delivered
+  daysLeft?: number;
+  // "YYYY-MM-DD" the window is counted from
+  windowStart?: string;
+  // The caller's date when it's outside the order and delivery dates on record; the window counts from delivery instead
+  conflictingPurchaseDate?: string;
+  returnableItems: OrderItem[];
+  // Items in an excluded category, which stay with the customer even when the rest goes back
+  excludedItems: OrderItem[];
+}
+
+// What the caller told us, alongside the order record
+export interface ReturnRequest {
+  // "YYYY-MM-DD"; the window counts from delivery when the order shows one
+  purchaseDate?: string;
+  // Undefined when the caller wasn't asked
+  originalCondition?: boolean;
+}
+
+const isExcluded = (item: OrderItem, policy: ReturnPolicy) =>
+  !!item.category && policy.excludedCategories.some(category => category.toLowerCase() === item.category!.toLowerCase());
+
+export function checkReturnEligibility(
+  order: Order,
+  request: ReturnRequest = {},
+  policy: ReturnPolicy = getReturnPolicy(),
+  now: Date = new Date()
+): ReturnEligibility {
+  const excludedItems = order.items.filter(item => isExcluded(item, policy));
+  const returnableItems = order.items.filter(item => !isExcluded(item, policy));
+  const ineligible = (reason: ReturnEligibilityReason, extra: Partial<ReturnEligibility> = {}): ReturnEligibility =>
+    ({ eligible: false, reason, returnableItems: [], excludedItems, ...extra });
+
+  switch (order.status) {
+    case 'processing':
+      return ineligible('not-shipped');
+    case 'shipped':
+      return ineligible('in-transit');
+    case 'cancelled':
+      return ineligible('cancelled');
+  }
+
+  const windowStart = (order.deliveredAt ?? request.purchaseDate ?? order.placedAt).slice(0, 10);
+  const daysLeft = policy.windowDays - Math.floor((now.getTime() - new Date(`${windowStart}T00:00:00`).getTime()) / DAY_MS);
+  // The caller is asked when they bought it or when it arrived, so any date from the order to the delivery agrees
+  const callerDate = request.purchaseDate?.slice(0, 10);
+  const conflictingPurchaseDate = order.deliveredAt && callerDate && (callerDate < order.placedAt.slice(0, 10) || callerDate > windowStart)
+    ? callerDate
+    : undefined;
+  const window = { windowStart, daysLeft, conflictingPurchaseDate };
+  if (daysLeft < 0) {
+    return ineligible('window-expired', window);
+  }
+  if (policy.requireOriginalCondition && request.originalCondition === false) {
+    return ineligible('condition', window);
+  }
+  if (order.items.length > 0 && returnableItems.length === 0) {
+    return ineligible('excluded-category', window);
+  }
+  return { eligible: true, reason: 'eligible', ...window, returnableItems, excludedItems };
+}
+
+// A return the agent authorized on a call
+export interface ReturnAuthorization {
+  rmaNumber: string;
+  orderNumber: string;
+  // Where the summary can be emailed, from the order
+  email?: string;
+  purchaseDate?: string;
+  items: OrderItem[];
+  // "YYYY-MM-DD" the items have to be sent back by
+  returnBy: string;
+  // What the agent read out, in the caller's language
+  summary: string;
+  // ISO timestamp
+  createdAt: string;
+}
+
+// Helper function to get issued return authorizations from localStorage, newest first
+export function getReturnAuthorizations(): ReturnAuthorization[] {
+  const saved = localStorage.getItem(RETURNS_STORAGE_KEY);
+  return saved ? JSON.parse(saved) : [];
+}
+
+// Issue an RMA for the items in an eligible order that can go back
+export function createReturnAuthorization(
+  order: Order,
+  eligibility: ReturnEligibility,
+  request: ReturnRequest,
+  language: LanguageCode,
+  now: Date = new Date()
+): ReturnAuthorization {
+  const deadline = new Date(now.getTime() + Math.max(eligibility.daysLeft ?? 0, 0) * DAY_MS);
+  const details = {
+    // Short enough to read out over the phone
+    rmaNumber: `RMA-${Math.floor(100000 + Math.random() * 900000)}`,
+    orderNumber: order.orderNumber,
+    items: eligibility.returnableItems,
+    returnBy: `${deadline.getFullYear()}-${String(deadline.getMonth() + 1).padStart(2, '0')}-${String(deadline.getDate()).padStart(2, '0')}`,
+  };
+  const authorization: ReturnAuthorization = {
+    ...details,
+    email: order.email || undefined,
+    purchaseDate: request.purchaseDate,
+    summary: summarizeReturn(details, eligibility.excludedItems, language),
+    createdAt: now.toISOString(),
+  };
+  localStorage.setItem(RETURNS_STORAGE_KEY, JSON.stringify([authorization, ...getReturnAuthorizations()]));
+  return authorization;
+}
+
+// A mailto: link that opens the RMA summary in the customer's email client
+export function returnSummaryMailto(authorization: ReturnAuthorization): string {
+  const subject = `Your return ${authorization.rmaNumber} for order ${authorization.orderNumber}`;
+  return `mailto:${encodeURIComponent(authorization.email ?? '')}?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(authorization.summary)}`;
+}
+
+const returnReplies: Record<Exclude<ReturnEligibilityReason, 'eligible'> | 'notFound' | 'dateConflict' | 'authorized' | 'summary' | 'excludedNote', LocalizedText> = {
+  notFound: {
+    en: "I couldn't find order {orderNumber} under {email}. Please check the number in your confirmation email, or ask me to open a ticket.",
+    es: 'No encuentro el pedido {orderNumber} con el correo {email}. Compruebe el número en su correo de confirmación o pídame que abra una incidencia.',
+    fr: "Je ne trouve pas la commande {orderNumber} pour {email}. Vérifiez le numéro dans votre e-mail de confirmation, ou demandez-moi d'ouvrir un ticket.",
+    de: 'Ich finde die Bestellung {orderNumber} unter {email} nicht. Bitte prüfen Sie die Nummer in Ihrer Bestätigungs-E-Mail oder lassen Sie mich ein Ticket anlegen.',
+  },
+  dateConflict: {
+    en: 'Our records show order {orderNumber} was delivered on {deliveredAt}, not {purchaseDate}, so the return window counts from the delivery.',
+    es: 'Según nuestros registros, el pedido {orderNumber} se entregó el {deliveredAt} y no el {purchaseDate}, así que el plazo de devolución cuenta desde la entrega.',
+    fr: "D'après nos données, la commande {orderNumber} a été livrée le {deliveredAt} et non le {purchaseDate}, le délai de retour court donc à partir de la livraison.",
+    de: 'Laut unseren Daten wurde die Bestellung {orderNumber} am {deliveredAt} zugestellt, nicht am {purchaseDate}; die Rückgabefrist zählt daher ab der Zustellung.',
+  },
+  'not-shipped': {
+    en: "Order {orderNumber} hasn't shipped yet, so there's nothing to send back. If you no longer want it, I can open a ticket to cancel it.",
+    es: 'El pedido {orderNumber} aún no se ha enviado, así que no hay nada que devolver. Si ya no lo quiere, puedo abrir una incidencia para cancelarlo.',
+    fr: "La commande {orderNumber} n'a pas encore été expédiée, il n'y a donc rien à renvoyer. Si vous n'en voulez plus, je peux ouvrir un ticket pour l'annuler.",
+    de: 'Die Bestellung {orderNumber} ist noch nicht versandt, es gibt also nichts zurückzuschicken. Falls Sie sie nicht mehr möchten, kann ich ein Ticket zur Stornierung anlegen.',
+  },
+  'in-transit': {
+    en: 'Order {orderNumber} is still on its way. Once it arrives, you have {windowDays} days to return it.',
+    es: 'El pedido {orderNumber} todavía está en camino. Cuando llegue, tendrá {windowDays} días para devolverlo.',
+    fr: 'La commande {orderNumber} est encore en route. Une fois reçue, vous aurez {windowDays} jours pour la retourner.',
+    de: 'Die Bestellung {orderNumber} ist noch unterwegs. Nach der Zustellung haben Sie {windowDays} Tage Zeit für die Rückgabe.',
+  },
+  cancelled: {
+    en: "Order {orderNumber} was cancelled, so there's nothing to return.",
+    es: 'El pedido {orderNumber} fue cancelado, así que no hay nada que devolver.',
+    fr: "La commande {orderNumber} a été annulée, il n'y a donc rien à retourner.",
+    de: 'Die Bestellung {orderNumber} wurde storniert, es gibt also nichts zurückzugeben.',
+  },
+  'window-expired': {
+    en: "Order {orderNumber} counts from {windowStart}, which is outside our {windowDays}-day return window, so I can't start a return. I can open a ticket if there were special circumstances.",
+    es: 'El pedido {orderNumber} cuenta desde el {windowStart}, fuera de nuestro plazo de devolución de {windowDays} días, así que no puedo iniciar la devolución. Puedo abrir una incidencia si hubo circunstancias especiales.',
+    fr: "La commande {orderNumber} date du {windowStart}, hors de notre délai de retour de {windowDays} jours, je ne peux donc pas lancer de retour. Je peux ouvrir un ticket en cas de circonstances particulières.",
+    de: 'Die Bestellung {orderNumber} zählt ab dem {windowStart} und liegt damit außerhalb unserer Rückgabefrist von {windowDays} Tagen. Bei besonderen Umständen kann ich ein Ticket anlegen.',
+  },
+  condition: {
+    en: "Returns need to be unused and in their original packaging, so I can't start one for this order. If it arrived damaged, I can open a ticket for the team.",
+    es: 'Las devoluciones deben estar sin usar y en su embalaje original, así que no puedo iniciar una para este pedido. Si llegó dañado, puedo abrir una incidencia para el equipo.',
+    fr: "Les articles retournés doivent être inutilisés et dans leur emballage d'origine, je ne peux donc pas lancer de retour pour cette commande. S'il est arrivé endommagé, je peux ouvrir un ticket pour l'équipe.",
+    de: 'Rücksendungen müssen unbenutzt und originalverpackt sein, daher kann ich für diese Bestellung keine Rückgabe starten. Falls die Ware beschädigt ankam, kann ich ein Ticket für das Team anlegen.',
+  },
+  'excluded-category': {
+    en: "Everything in order {orderNumber} is {categories}, which can't be returned.",
+    es: 'Todo el pedido {orderNumber} es de {categories}, que no admite devolución.',
+    fr: 'Tout le contenu de la commande {orderNumber} relève de {categories}, qui ne peut pas être retourné.',
+    de: 'Alles in der Bestellung {orderNumber} fällt unter {categories} und ist von der Rückgabe ausgeschlossen.',
+  },
+  authorized: {
+    en: "You're all set. Your return number is RMA {spelledNumber}.",
+    es: 'Listo. Su número de devolución es RMA {spelledNumber}.',
+    fr: 'C\'est fait. Votre numéro de retour est RMA {spelledNumber}.',
+    de: 'Alles erledigt. Ihre Rücksendenummer lautet RMA {spelledNumber}.',
+  },
+  summary: {
+    en: 'Return {rmaNumber} for order {orderNumber}: {items}. Please send it back by {returnBy} with the return number on the parcel.',
+    es: 'Devolución {rmaNumber} del pedido {orderNumber}: {items}. Envíelo antes del {returnBy} con el número de devolución en el paquete.',
+    fr: 'Retour {rmaNumber} pour la commande {orderNumber} : {items}. Merci de le renvoyer avant le {returnBy} avec le numéro de retour sur le colis.',
+    de: 'Rücksendung {rmaNumber} für Bestellung {orderNumber}: {items}. Bitte schicken Sie sie bis {returnBy} mit der Rücksendenummer auf dem Paket zurück.',
+  },
+  excludedNote: {
+    en: "{items} can't be returned because it's {categories}.",
+    es: '{items} no admite devolución por ser de {categories}.',
+    fr: '{items} ne peut pas être retourné, car il relève de {categories}.',
+    de: '{items} ist als {categories} von der Rückgabe ausgeschlossen.',
+  },
+};
+
+const andWord: Record<LanguageCode, string> = { en: 'and', es: 'y', fr: 'et', de: 'und' };
+
+// "Oak desk lamp and LED bulb"
+function listItems(items: OrderItem[], language: LanguageCode): string {
+  const names = Array.from(new Set(items.map(item => item.name)));
+  return names.length > 1 ? `${names.slice(0, -1).join(', ')} ${andWord[language]} ${names[names.length - 1]}` : names[0] ?? '';
+}
+
+const listCategories = (items: OrderItem[], language: LanguageCode) =>
+  listItems(items.map(item => ({ ...item, name: item.category ?? '' })), language);
+
+export function describeMissingReturnOrder(orderNumber: string, email: string, language: LanguageCode): string {
+  return fillTemplate(localize(returnReplies.notFound, language), { orderNumber, email });
+}
+
+// That the window counts from the delivery date on record rather than the date the caller gave; empty when the dates fit the order
+export function describeDateConflict(order: Order, eligibility: ReturnEligibility, language: LanguageCode): string {
+  if (!eligibility.conflictingPurchaseDate) return '';
+  return fillTemplate(localize(returnReplies.dateConflict, language), {
+    orderNumber: order.orderNumber,
+    deliveredAt: formatSpokenDate(eligibility.windowStart, language),
+    purchaseDate: formatSpokenDate(eligibility.conflictingPurchaseDate, language),
+  });
+}
+
+// Why an order can't be returned, as the agent says it
+export function describeIneligibleReturn(order: Order, eligibility: ReturnEligibility, policy: ReturnPolicy, language: LanguageCode): string {
+  if (eligibility.eligible) return '';
+  const reason = fillTemplate(localize(returnReplies[eligibility.reason as Exclude<ReturnEligibilityReason, 'eligible'>], language), {
+    orderNumber: order.orderNumber,
+    windowDays: String(policy.windowDays),
+    windowStart: formatSpokenDate(eligibility.windowStart, language),
+    categories: listCategories(eligibility.excludedItems, language),
+  });
+  return eligibility.reason === 'window-expired' ? [describeDateConflict(order, eligibility, language), reason].filter(Boolean).join(' ') : reason;
+}
+
+// The written summary stored with an RMA: what goes back, by when, and what doesn't qualify
+function summarizeReturn(
+  authorization: Pick<ReturnAuthorization, 'rmaNumber' | 'orderNumber' | 'items' | 'returnBy'>,
+  excludedItems: OrderItem[],
+  language: LanguageCode
+): string {
+  const summary = fillTemplate(localize(returnReplies.summary, language), {
+    rmaNumber: authorization.rmaNumber,
+    orderNumber: authorization.orderNumber,
+    items: listItems(authorization.items, language),
+    returnBy: formatSpokenDate(authorization.returnBy, language),
+  });
+  if (excludedItems.length === 0) {
+    return summary;
+  }
+  return `${summary} ${fillTemplate(localize(returnReplies.excludedNote, language), {
+    items: listItems(excludedItems, language),
+    categories: listCategories(excludedItems, language),
+  })}`;
+}
+
+// What the agent says once the RMA exists; digits are spaced out so they're read one at a time
+export function describeReturnAuthorization(authorization: ReturnAuthorization, language: LanguageCode): string {
+  const spelledNumber = authorization.rmaNumber.replace(/^RMA-/, '').split('').join(' ');
+  return `${fillTemplate(localize(returnReplies.authorized, language), { spelledNumber })} ${authorization.summary}`;
+}
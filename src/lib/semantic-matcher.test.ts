@@ -0,0 +1,45 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { classifyIntent } from './semantic-matcher';
+import { getIntents } from './intents';
+import { DEFAULT_AGENT_SETTINGS } from './settings';
+
+const context = {
+  apiKeys: { openaiKey: '', elevenlabsKey: '', deepgramKey: '', orderApiKey: '' },
+  settings: DEFAULT_AGENT_SETTINGS.matching,
+};
+const threshold = DEFAULT_AGENT_SETTINGS.matching.confidenceThreshold;
+const classify = (message: string) => classifyIntent(message, getIntents(), context);
+
+beforeEach(() => {
+  const store = new Map<string, string>();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => store.get(key) ?? null,
+    setItem: (key: string, value: string) => store.set(key, value),
+    removeItem: (key: string) => store.delete(key),
+  });
+});
+
+describe('classifyIntent', () => {
+  it('scores an example phrase as a full match', async () => {
+    const [best] = await classify('What are your hours?');
+    expect(best).toMatchObject({ intent: { id: 'hours' } });
+    expect(best.confidence).toBeCloseTo(1);
+  });
+
+  it('still finds hours when the transcript says "ours"', async () => {
+    const [best, runnerUp] = await classify('what are your ours');
+    expect(best.intent.id).toBe('hours');
+    expect(best.confidence).toBeGreaterThanOrEqual(threshold);
+    expect(runnerUp.confidence).toBeLessThan(threshold);
+  });
+
+  it('does not send a delivery question to hours', async () => {
+    const ranked = await classify('What time does my package arrive');
+    expect(ranked[0].intent.id).toBe('tracking');
+    expect(ranked.map(classification => classification.intent.id)).not.toContain('hours');
+  });
+
+  it('returns nothing for an empty message', async () => {
+    expect(await classify('  ')).toEqual([]);
+  });
+});
@@ -0,0 +1,43 @@
+// Embeddings-based intent matching: compare a message with every intent's example phrases
+
+import { cosineSimilarity, embedTexts, EmbeddingContext } from './embeddings';
+import { hasExcludedTerm, Intent } from './intents';
+
+export interface IntentClassification {
+  intent: Intent;
+  // Cosine similarity to the closest example, 0-1
+  confidence: number;
+  // The example phrase (or the label) the message was closest to
+  closestExample: string;
+}
+
+// Every intent scored against the message, most confident first; intents vetoed by excluded terms are left out
+export async function classifyIntent(
+  message: string,
+  intents: Intent[],
+  context: EmbeddingContext
+): Promise<IntentClassification[]> {
+  const candidates = intents.filter(intent => !hasExcludedTerm(message, intent));
+  if (!message.trim() || candidates.length === 0) {
+    return [];
+  }
+
+  const phrases = candidates.map(intent => [intent.label, ...intent.examples]);
+  const vectors = await embedTexts([message, ...phrases.flat()], context);
+  const messageVector = vectors[0];
+
+  let offset = 1;
+  const classifications = candidates.map((intent, index) => {
+    let best: IntentClassification = { intent, confidence: 0, closestExample: intent.label };
+    phrases[index].forEach((phrase, phraseIndex) => {
+      const confidence = Math.max(0, cosineSimilarity(messageVector, vectors[offset + phraseIndex]));
+      if (confidence > best.confidence) {
+        best = { intent, confidence, closestExample: phrase };
+      }
+    });
+    offset += phrases[index].length;
+    return best;
+  });
+
+  return classifications.sort((a, b) => b.confidence - a.confidence || b.intent.priority - a.intent.priority);
+}
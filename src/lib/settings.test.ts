@@ -0,0 +1,50 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  createAgentProfile,
+  DEFAULT_AGENT_SETTINGS,
+  deleteAgentProfile,
+  getActiveAgentId,
+  getAgentSettings,
+  listAgentProfiles,
+  saveAgentSettings,
+  setActiveAgentId,
+} from './settings';
+
+let store: Map<string, string>;
+
+beforeEach(() => {
+  store = new Map<string, string>();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => store.get(key) ?? null,
+    setItem: (key: string, value: string) => store.set(key, value),
+    removeItem: (key: string) => store.delete(key),
+  });
+});
+
+describe('agent profiles', () => {
+  it('reads settings saved before there were profiles as the default agent', () => {
+    store.set('ai-agent-settings', JSON.stringify({ tts: { provider: 'openai-tts' } }));
+    expect(listAgentProfiles()).toEqual([{ id: 'default', name: 'Default Agent' }]);
+    expect(getAgentSettings().tts.provider).toBe('openai-tts');
+  });
+
+  it('keeps a TTS provider per agent', () => {
+    const spanish = createAgentProfile('Spanish Line');
+    saveAgentSettings({ ...DEFAULT_AGENT_SETTINGS, tts: { ...DEFAULT_AGENT_SETTINGS.tts, provider: 'browser' } }, spanish.id);
+
+    expect(getAgentSettings().tts.provider).toBe('elevenlabs');
+    setActiveAgentId(spanish.id);
+    expect(getAgentSettings().tts.provider).toBe('browser');
+    expect(getAgentSettings('default').tts.provider).toBe('elevenlabs');
+  });
+
+  it('falls back to another agent when the active one is deleted, but keeps the last one', () => {
+    const second = createAgentProfile('Second');
+    setActiveAgentId(second.id);
+    deleteAgentProfile(second.id);
+    expect(getActiveAgentId()).toBe('default');
+
+    deleteAgentProfile('default');
+    expect(listAgentProfiles()).toHaveLength(1);
+  });
+});
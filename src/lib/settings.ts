@@ -0,0 +1,293 @@
+// Agent settings (provider choices, endpoints, models) persisted in localStorage
+
+import type { LanguageCode } from './languages';
+
+export type SpeechToTextProviderId = 'openai-whisper' | 'whisper-compatible' | 'deepgram';
+
+// 'recorder' uploads recorded audio to the provider; 'web-speech' uses the browser's own recognizer
+export type SpeechToTextMode = 'recorder' | 'web-speech';
+
+export interface SpeechToTextSettings {
+  mode: SpeechToTextMode;
+  provider: SpeechToTextProviderId;
+  baseUrl: string;
+  model: string;
+  language: string;
+  // Recorder mode: how long the caller has to stay quiet before their turn is sent for transcription
+  trailingSilenceMs: number;
+}
+
+export type TextToSpeechProviderId = 'elevenlabs' | 'openai-tts' | 'openai-compatible-tts' | 'browser' | 'demo-tone';
+
+// ElevenLabs voice_settings, saved alongside the chosen voice
+export interface VoiceSettings {
+  stability: number;
+  similarityBoost: number;
+  style: number;
+}
+
+export interface TextToSpeechSettings {
+  provider: TextToSpeechProviderId;
+  baseUrl: string;
+  model: string;
+  voice: string;
+  // Voices to use instead of the main one when replying in another language
+  languageVoices: Partial<Record<LanguageCode, string>>;
+  voiceSettings: VoiceSettings;
+}
+
+export interface LanguageModelSettings {
+  baseUrl: string;
+  model: string;
+  systemPrompt: string;
+  // Offer the agent's tools through function calling; turn off for models that don't support it
+  enableTools: boolean;
+}
+
+export type EmbeddingProviderId = 'local-trigram' | 'openai-embeddings';
+
+// How customer messages are matched to the FAQ intents
+export interface IntentMatchingSettings {
+  // 'keywords' uses each intent's term rules; 'embeddings' scores similarity to its example phrases, and uses the term
+  // rules for messages that don't clear the threshold
+  method: 'keywords' | 'embeddings';
+  embeddingProvider: EmbeddingProviderId;
+  baseUrl: string;
+  model: string;
+  // Minimum similarity (0-1) for an intent's canned answer to be used without a keyword rule backing it up
+  confidenceThreshold: number;
+  // What happens to a message that doesn't clear the threshold
+  belowThreshold: 'llm' | 'clarify';
+}
+
+// Order fields the agent reads, each mapped to a dot path into the order API's JSON (e.g. "shipment.lastScan.location")
+export type OrderFieldMap = Record<
+  'orderNumber' | 'email' | 'status' | 'placedAt' | 'items' | 'carrier' | 'trackingNumber' | 'estimatedDelivery' | 'deliveredAt' | 'lastScanLocation',
+  string
+>;
+
+// Where order lookups go: the bundled sample orders, or the store's own REST API
+export interface OrderLookupSettings {
+  source: 'sample' | 'api';
+  // GET URL; {orderNumber} and {email} are filled in
+  endpoint: string;
+  fieldMap: OrderFieldMap;
+  // What the agent says about a found order, per language; blank uses the built-in reply for its status
+  responseTemplates: Partial<Record<LanguageCode, string>>;
+}
+
+// When the agent hands a call to a person instead of answering itself
+export interface EscalationSettings {
+  enabled: boolean;
+  // Fallback answers in a row ("I can help with...") before a person takes over
+  maxFallbacks: number;
+  // Upset-sounding customer turns in a row before a person takes over
+  maxNegativeTurns: number;
+  // What the caller hears while they wait, per language; blank uses the built-in message
+  holdMessages: Partial<Record<LanguageCode, string>>;
+}
+
+// How live calls reach operator consoles; BroadcastChannel covers tabs in this browser
+export interface OperatorSettings {
+  // ws:// or wss:// server that forwards each message to every other connected client; blank for this browser only
+  relayUrl: string;
+  // Shared secret that relay messages are signed with; every call tab and console needs the same one, and the relay stays off without it
+  relayToken: string;
+}
+
+// Agent-assist mode: the agent transcribes and suggests replies for a person on the call, but never speaks itself
+export interface AssistSettings {
+  enabled: boolean;
+}
+
+// Demo mode runs the whole call offline: typed or scripted customer lines, a fake LLM and local voices
+export interface DemoSettings {
+  enabled: boolean;
+  voice: 'browser' | 'demo-tone';
+}
+
+export interface AgentSettings {
+  stt: SpeechToTextSettings;
+  llm: LanguageModelSettings;
+  tts: TextToSpeechSettings;
+  matching: IntentMatchingSettings;
+  orders: OrderLookupSettings;
+  escalation: EscalationSettings;
+  operator: OperatorSettings;
+  assist: AssistSettings;
+  demo: DemoSettings;
+}
+
+// Each agent keeps its own settings; the default agent stays under the original key so existing settings carry over
+export interface AgentProfile {
+  id: string;
+  name: string;
+}
+
+const SETTINGS_STORAGE_KEY = 'ai-agent-settings';
+const AGENT_PROFILES_STORAGE_KEY = 'ai-agent-profiles';
+const ACTIVE_AGENT_STORAGE_KEY = 'ai-agent-active-profile';
+
+export const DEFAULT_AGENT_PROFILE: AgentProfile = { id: 'default', name: 'Default Agent' };
+
+function settingsKey(agentId: string): string {
+  return agentId === DEFAULT_AGENT_PROFILE.id ? SETTINGS_STORAGE_KEY : `${SETTINGS_STORAGE_KEY}:${agentId}`;
+}
+
+// Hosted endpoints used when a service's base URL is left blank
+export const DEFAULT_BASE_URLS = {
+  openai: 'https://api.openai.com',
+  elevenlabs: 'https://api.elevenlabs.io',
+  deepgram: 'https://api.deepgram.com',
+};
+
+export const DEFAULT_AGENT_SETTINGS: AgentSettings = {
+  stt: {
+    mode: 'recorder',
+    provider: 'openai-whisper',
+    baseUrl: '',
+    model: '',
+    // Blank lets the provider detect the caller's language
+    language: '',
+    trailingSilenceMs: 700,
+  },
+  llm: {
+    baseUrl: '',
+    model: 'gpt-4o-mini',
+    systemPrompt:
+      "You are a friendly customer service agent speaking with a caller on the phone. " +
+      "Answer in one to three short, conversational sentences that sound natural when read aloud. " +
+      "Do not use markdown, lists or emoji. If you don't know something about the business, say so and offer to connect the caller with a team member.",
+    enableTools: true,
+  },
+  tts: {
+    provider: 'elevenlabs',
+    baseUrl: '',
+    model: '',
+    voice: '',
+    languageVoices: {},
+    voiceSettings: {
+      stability: 0.5,
+      similarityBoost: 0.5,
+      style: 0,
+    },
+  },
+  matching: {
+    method: 'embeddings',
+    embeddingProvider: 'local-trigram',
+    baseUrl: '',
+    model: '',
+    confidenceThreshold: 0.6,
+    belowThreshold: 'llm',
+  },
+  orders: {
+    source: 'sample',
+    // Served by the dev server from the sample orders
+    endpoint: '/mock-api/orders/{orderNumber}?email={email}',
+    fieldMap: {
+      orderNumber: 'orderNumber',
+      email: 'email',
+      status: 'status',
+      placedAt: 'placedAt',
+      items: 'items',
+      carrier: 'shipment.carrier',
+      trackingNumber: 'shipment.trackingNumber',
+      estimatedDelivery: 'shipment.eta',
+      deliveredAt: 'shipment.deliveredAt',
+      lastScanLocation: 'shipment.lastScan.location',
+    },
+    responseTemplates: {},
+  },
+  escalation: {
+    enabled: true,
+    maxFallbacks: 2,
+    maxNegativeTurns: 2,
+    holdMessages: {},
+  },
+  operator: {
+    relayUrl: '',
+    relayToken: '',
+  },
+  assist: {
+    enabled: false,
+  },
+  demo: {
+    enabled: false,
+    voice: 'browser',
+  },
+};
+
+// Helper function to get an agent's settings (the active one by default) from localStorage, filling in defaults
+export function getAgentSettings(agentId: string = getActiveAgentId()): AgentSettings {
+  const saved = localStorage.getItem(settingsKey(agentId));
+  if (!saved) {
+    return DEFAULT_AGENT_SETTINGS;
+  }
+
+  const parsed = JSON.parse(saved) as Partial<AgentSettings>;
+  return {
+    stt: { ...DEFAULT_AGENT_SETTINGS.stt, ...parsed.stt },
+    llm: { ...DEFAULT_AGENT_SETTINGS.llm, ...parsed.llm },
+    tts: {
+      ...DEFAULT_AGENT_SETTINGS.tts,
+      ...parsed.tts,
+      voiceSettings: { ...DEFAULT_AGENT_SETTINGS.tts.voiceSettings, ...parsed.tts?.voiceSettings },
+    },
+    matching: { ...DEFAULT_AGENT_SETTINGS.matching, ...parsed.matching },
+    orders: {
+      ...DEFAULT_AGENT_SETTINGS.orders,
+      ...parsed.orders,
+      fieldMap: { ...DEFAULT_AGENT_SETTINGS.orders.fieldMap, ...parsed.orders?.fieldMap },
+    },
+    escalation: { ...DEFAULT_AGENT_SETTINGS.escalation, ...parsed.escalation },
+    operator: { ...DEFAULT_AGENT_SETTINGS.operator, ...parsed.operator },
+    assist: { ...DEFAULT_AGENT_SETTINGS.assist, ...parsed.assist },
+    demo: { ...DEFAULT_AGENT_SETTINGS.demo, ...parsed.demo },
+  };
+}
+
+// Helper function to persist an agent's settings (the active one by default) to localStorage
+export function saveAgentSettings(settings: AgentSettings, agentId: string = getActiveAgentId()): void {
+  localStorage.setItem(settingsKey(agentId), JSON.stringify(settings));
+}
+
+export function listAgentProfiles(): AgentProfile[] {
+  const saved = localStorage.getItem(AGENT_PROFILES_STORAGE_KEY);
+  const parsed = saved ? JSON.parse(saved) : null;
+  return Array.isArray(parsed) && parsed.length > 0 ? parsed : [DEFAULT_AGENT_PROFILE];
+}
+
+function saveAgentProfiles(profiles: AgentProfile[]): void {
+  localStorage.setItem(AGENT_PROFILES_STORAGE_KEY, JSON.stringify(profiles));
+}
+
+// The agent calls are answered as; falls back to the first profile if the saved one was deleted
+export function getActiveAgentId(): string {
+  const profiles = listAgentProfiles();
+  const saved = localStorage.getItem(ACTIVE_AGENT_STORAGE_KEY);
+  return profiles.some(profile => profile.id === saved) ? saved : profiles[0].id;
+}
+
+export function setActiveAgentId(agentId: string): void {
+  localStorage.setItem(ACTIVE_AGENT_STORAGE_KEY, agentId);
+}
+
+// New agents start as a copy of the active agent's settings
+export function createAgentProfile(name: string): AgentProfile {
+  const profile: AgentProfile = { id: crypto.randomUUID(), name };
+  saveAgentSettings(getAgentSettings(), profile.id);
+  saveAgentProfiles([...listAgentProfiles(), profile]);
+  return profile;
+}
+
+export function renameAgentProfile(agentId: string, name: string): void {
+  saveAgentProfiles(listAgentProfiles().map(profile => (profile.id === agentId ? { ...profile, name } : profile)));
+}
+
+// The last remaining agent can't be deleted
+export function deleteAgentProfile(agentId: string): void {
+  const profiles = listAgentProfiles();
+  if (profiles.length <= 1) return;
+  saveAgentProfiles(profiles.filter(profile => profile.id !== agentId));
+  localStorage.removeItem(settingsKey(agentId));
+}
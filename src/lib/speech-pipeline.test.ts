@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import type { AIServices } from './ai-services';
+import { SentenceSplitter, SpeechQueue } from './speech-pipeline';
+
+describe('SentenceSplitter', () => {
+  it('hands back each sentence as soon as the stream finishes it', () => {
+    const splitter = new SentenceSplitter();
+    expect(splitter.push('Thanks for calling')).toEqual([]);
+    expect(splitter.push(' today. How can I')).toEqual(['Thanks for calling today.']);
+    expect(splitter.push(' help you? ')).toEqual(['How can I help you?']);
+    expect(splitter.flush()).toEqual([]);
+  });
+
+  it('waits for the whitespace after the punctuation, so decimals stay intact', () => {
+    const splitter = new SentenceSplitter();
+    expect(splitter.push('The lamp costs 89.5')).toEqual([]);
+    expect(splitter.push('0 dollars.')).toEqual([]);
+    expect(splitter.flush()).toEqual(['The lamp costs 89.50 dollars.']);
+  });
+
+  it('does not split after abbreviations', () => {
+    const splitter = new SentenceSplitter();
+    expect(splitter.push('It ships from St. Louis on Monday at 9 a.m. tomorrow. Anything else? '))
+      .toEqual(['It ships from St. Louis on Monday at 9 a.m. tomorrow.', 'Anything else?']);
+  });
+
+  it('keeps very short sentences with the next one', () => {
+    const splitter = new SentenceSplitter();
+    expect(splitter.push('Sure. I can help with that. ')).toEqual(['Sure. I can help with that.']);
+  });
+
+  it('keeps closing quotes with their sentence', () => {
+    const splitter = new SentenceSplitter();
+    expect(splitter.push('The status says "in transit." It should arrive soon')).toEqual(['The status says "in transit."']);
+    expect(splitter.flush()).toEqual(['It should arrive soon']);
+  });
+});
+
+describe('SpeechQueue', () => {
+  // Synthesis that finishes in the order the test releases it, and playback that records what it played
+  const fakeServices = () => {
+    const pending = new Map<string, () => void>();
+    const played: string[] = [];
+    const services = {
+      textToSpeech: (text: string) => new Promise<string>(resolve => pending.set(text, () => resolve(text))),
+      playAudio: async (audio: string) => { played.push(audio); },
+    } as unknown as AIServices;
+    return { services, pending, played };
+  };
+
+  it('plays sentences in the order they were queued, whichever is synthesized first', async () => {
+    const { services, pending, played } = fakeServices();
+    const queue = new SpeechQueue(services);
+    queue.enqueue('First sentence.');
+    queue.enqueue('Second sentence.');
+
+    pending.get('Second sentence.')();
+    pending.get('First sentence.')();
+    await queue.drain();
+
+    expect(played).toEqual(['First sentence.', 'Second sentence.']);
+  });
+
+  it('skips whatever has not played yet once cancelled', async () => {
+    const { services, pending, played } = fakeServices();
+    const queue = new SpeechQueue(services);
+    queue.enqueue('First sentence.');
+    queue.cancel();
+
+    pending.get('First sentence.')();
+    await queue.drain();
+
+    expect(played).toEqual([]);
+  });
+});
@@ -0,0 +1,90 @@
+// Sentence-level pipelining between a streamed reply and text-to-speech
+
+import type { AIServices } from './ai-services';
+import type { LanguageCode } from './languages';
+
+// Abbreviations whose trailing period does not end a sentence
+const ABBREVIATIONS = ['mr', 'mrs', 'ms', 'dr', 'st', 'vs', 'etc', 'e.g', 'i.e', 'a.m', 'p.m', 'no', 'approx'];
+
+// Very short pieces sound choppy when synthesized on their own
+const MIN_SENTENCE_LENGTH = 12;
+
+// Accumulates streamed text and hands back complete sentences as soon as they are finished
+export class SentenceSplitter {
+  private buffer = '';
+
+  // Add a chunk of streamed text; returns any sentences it completed
+  push(text: string): string[] {
+    this.buffer += text;
+    const sentences: string[] = [];
+
+    let searchFrom = 0;
+    const boundary = /[.!?]+["')\]]*\s+/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = boundary.exec(this.buffer)) !== null) {
+      const end = match.index + match[0].length;
+      const candidate = this.buffer.slice(searchFrom, end).trim();
+
+      if (candidate.length < MIN_SENTENCE_LENGTH || this.endsWithAbbreviation(candidate)) {
+        continue;
+      }
+
+      sentences.push(candidate);
+      searchFrom = end;
+    }
+
+    this.buffer = this.buffer.slice(searchFrom);
+    return sentences;
+  }
+
+  // Return whatever is left once the stream has ended
+  flush(): string[] {
+    const rest = this.buffer.trim();
+    this.buffer = '';
+    return rest ? [rest] : [];
+  }
+
+  private endsWithAbbreviation(sentence: string): boolean {
+    const lastWord = sentence.replace(/[.!?"')\]]+$/, '').split(/\s+/).pop()?.toLowerCase() ?? '';
+    return ABBREVIATIONS.includes(lastWord);
+  }
+}
+
+// Synthesizes sentences as soon as they are queued and plays them back strictly in order
+export class SpeechQueue {
+  private aiServices: AIServices;
+  private language?: LanguageCode;
+  private playback: Promise<void> = Promise.resolve();
+  private cancelled = false;
+
+  constructor(aiServices: AIServices, language?: LanguageCode) {
+    this.aiServices = aiServices;
+    this.language = language;
+  }
+
+  enqueue(text: string): void {
+    // Start synthesis right away so it overlaps with playback of earlier sentences
+    const speech = this.aiServices.textToSpeech(text, this.language);
+    speech.catch(() => undefined);
+
+    this.playback = this.playback.then(async () => {
+      if (this.cancelled) return;
+      try {
+        await this.aiServices.playAudio(await speech);
+      } catch (error) {
+        console.error('Error with text-to-speech:', error);
+      }
+    });
+  }
+
+  // Resolves once everything queued so far has been played
+  drain(): Promise<void> {
+    return this.playback;
+  }
+
+  // Skip anything not yet played
+  cancel(): void {
+    this.cancelled = true;
+  }
+}
@@ -0,0 +1,177 @@
+// Speech-to-Text providers selectable in the agent settings
+
+import type { ApiKeys } from './ai-services';
+import { DEFAULT_BASE_URLS, SpeechToTextProviderId, SpeechToTextSettings } from './settings';
+import { trimTrailingSlash } from './utils';
+import { LanguageCode, normalizeLanguage } from './languages';
+
+export interface SpeechToTextContext {
+  apiKeys: ApiKeys;
+  settings: SpeechToTextSettings;
+}
+
+export interface Transcription {
+  text: string;
+  // Spoken language, when the provider detected or was told it
+  language?: LanguageCode;
+}
+
+export interface SpeechToTextProvider {
+  id: SpeechToTextProviderId;
+  label: string;
+  // Endpoint used when the base URL setting is blank; empty when one must be set
+  defaultBaseUrl: string;
+  defaultModel: string;
+  // Whether the provider has the credentials and endpoint it needs
+  isConfigured(context: SpeechToTextContext): boolean;
+  transcribe(audioBlob: Blob, context: SpeechToTextContext): Promise<Transcription>;
+}
+
+const providers = new Map<SpeechToTextProviderId, SpeechToTextProvider>();
+
+export function registerSpeechToTextProvider(provider: SpeechToTextProvider): void {
+  providers.set(provider.id, provider);
+}
+
+export function getSpeechToTextProvider(id: SpeechToTextProviderId): SpeechToTextProvider {
+  const provider = providers.get(id);
+  if (!provider) {
+    throw new Error(`Unknown speech-to-text provider: ${id}`);
+  }
+  return provider;
+}
+
+export function listSpeechToTextProviders(): SpeechToTextProvider[] {
+  return Array.from(providers.values());
+}
+
+// File extension matching the recorder's container, so servers can sniff the format
+function audioFileName(audioBlob: Blob): string {
+  if (audioBlob.type.includes('ogg')) return 'audio.ogg';
+  if (audioBlob.type.includes('wav')) return 'audio.wav';
+  if (audioBlob.type.includes('mp4')) return 'audio.mp4';
+  return 'audio.webm';
+}
+
+// Shared request for the OpenAI /v1/audio/transcriptions contract
+async function transcribeWithWhisperApi(
+  baseUrl: string,
+  apiKey: string,
+  audioBlob: Blob,
+  settings: SpeechToTextSettings,
+  defaultModel: string
+): Promise<Transcription> {
+  const formData = new FormData();
+  formData.append('file', audioBlob, audioFileName(audioBlob));
+  formData.append('model', settings.model || defaultModel);
+  if (settings.language) {
+    formData.append('language', settings.language);
+  } else {
+    // verbose_json reports the language Whisper detected
+    formData.append('response_format', 'verbose_json');
+  }
+
+  const headers: Record<string, string> = {};
+  if (apiKey) {
+    headers['Authorization'] = `Bearer ${apiKey}`;
+  }
+
+  const response = await fetch(`${trimTrailingSlash(baseUrl)}/v1/audio/transcriptions`, {
+    method: 'POST',
+    headers,
+    body: formData,
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`Whisper API error: ${error}`);
+  }
+
+  const result = await response.json();
+  return {
+    text: result.text,
+    language: normalizeLanguage(settings.language || result.language),
+  };
+}
+
+// OpenAI Whisper, or any proxy in front of it when a base URL is set
+registerSpeechToTextProvider({
+  id: 'openai-whisper',
+  label: 'OpenAI Whisper',
+  defaultBaseUrl: DEFAULT_BASE_URLS.openai,
+  defaultModel: 'whisper-1',
+  isConfigured: ({ apiKeys }) => !!apiKeys.openaiKey,
+  async transcribe(audioBlob, { apiKeys, settings }) {
+    if (!apiKeys.openaiKey) {
+      throw new Error('OpenAI API key not configured');
+    }
+    return transcribeWithWhisperApi(
+      settings.baseUrl || this.defaultBaseUrl,
+      apiKeys.openaiKey,
+      audioBlob,
+      settings,
+      this.defaultModel
+    );
+  },
+});
+
+// Self-hosted server exposing the OpenAI transcription API (faster-whisper-server, LocalAI, ...)
+registerSpeechToTextProvider({
+  id: 'whisper-compatible',
+  label: 'Self-hosted Whisper (OpenAI-compatible)',
+  defaultBaseUrl: '',
+  defaultModel: 'whisper-1',
+  isConfigured: ({ settings }) => !!settings.baseUrl,
+  async transcribe(audioBlob, { settings }) {
+    if (!settings.baseUrl) {
+      throw new Error('Whisper server URL not configured');
+    }
+    return transcribeWithWhisperApi(settings.baseUrl, '', audioBlob, settings, this.defaultModel);
+  },
+});
+
+// Deepgram pre-recorded audio REST API
+registerSpeechToTextProvider({
+  id: 'deepgram',
+  label: 'Deepgram',
+  defaultBaseUrl: DEFAULT_BASE_URLS.deepgram,
+  defaultModel: 'nova-2',
+  isConfigured: ({ apiKeys }) => !!apiKeys.deepgramKey,
+  async transcribe(audioBlob, { apiKeys, settings }) {
+    if (!apiKeys.deepgramKey) {
+      throw new Error('Deepgram API key not configured');
+    }
+
+    const params = new URLSearchParams({
+      model: settings.model || this.defaultModel,
+      smart_format: 'true',
+    });
+    if (settings.language) {
+      params.set('language', settings.language);
+    } else {
+      params.set('detect_language', 'true');
+    }
+
+    const baseUrl = trimTrailingSlash(settings.baseUrl || this.defaultBaseUrl);
+    const response = await fetch(`${baseUrl}/v1/listen?${params.toString()}`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Token ${apiKeys.deepgramKey}`,
+        'Content-Type': audioBlob.type || 'audio/webm',
+      },
+      body: audioBlob,
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`Deepgram API error: ${error}`);
+    }
+
+    const result = await response.json();
+    const channel = result.results?.channels?.[0];
+    return {
+      text: channel?.alternatives?.[0]?.transcript ?? '',
+      language: normalizeLanguage(settings.language || channel?.detected_language),
+    };
+  },
+});
@@ -0,0 +1,32 @@
+// Support tickets the agent opens for follow-up by the team, persisted in localStorage
+
+const TICKETS_STORAGE_KEY = 'ai-agent-tickets';
+
+export type TicketPriority = 'low' | 'normal' | 'high';
+
+export interface Ticket {
+  id: string;
+  summary: string;
+  priority: TicketPriority;
+  email?: string;
+  orderNumber?: string;
+  // ISO timestamp
+  createdAt: string;
+}
+
+// Helper function to get tickets from localStorage, newest first
+export function getTickets(): Ticket[] {
+  const saved = localStorage.getItem(TICKETS_STORAGE_KEY);
+  return saved ? JSON.parse(saved) : [];
+}
+
+export function createTicket(details: Omit<Ticket, 'id' | 'createdAt'>): Ticket {
+  const ticket: Ticket = {
+    ...details,
+    // Short enough to read out over the phone
+    id: `TCK-${Math.floor(100000 + Math.random() * 900000)}`,
+    createdAt: new Date().toISOString(),
+  };
+  localStorage.setItem(TICKETS_STORAGE_KEY, JSON.stringify([ticket, ...getTickets()]));
+  return ticket;
+}
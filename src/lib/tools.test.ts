@@ -0,0 +1,30 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { invokeTool, ToolContext } from './tools';
+import { DEFAULT_AGENT_SETTINGS } from './settings';
+import { getReturnAuthorizations } from './returns';
+
+const context: ToolContext = {
+  apiKeys: { openaiKey: '', elevenlabsKey: '', deepgramKey: '', orderApiKey: '' },
+  settings: DEFAULT_AGENT_SETTINGS,
+  language: 'en',
+};
+
+beforeEach(() => {
+  const store = new Map<string, string>();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => store.get(key) ?? null,
+    setItem: (key: string, value: string) => store.set(key, value),
+    removeItem: (key: string) => store.delete(key),
+  });
+});
+
+describe('return tools', () => {
+  it.each(['checkReturnEligibility', 'createReturnAuthorization'])('%s needs the email on the order', async (name) => {
+    const missing = await invokeTool(name, { orderNumber: '100198' }, context);
+    expect(missing.error).toBeDefined();
+
+    const wrong = await invokeTool(name, { orderNumber: '100198', email: 'jane@example.com' }, context);
+    expect(wrong.result).toMatchObject({ found: false });
+    expect(getReturnAuthorizations()).toHaveLength(0);
+  });
+});
@@ -0,0 +1,233 @@
+// Agent tools: typed actions the LLM (via function calling) or a dialog flow can invoke
+
+import { z } from 'zod';
+import type { ApiKeys } from './ai-services';
+import type { AgentSettings } from './settings';
+import type { LanguageCode } from './languages';
+import { findOrder } from './orders';
+import {
+  checkReturnEligibility,
+  createReturnAuthorization,
+  describeDateConflict,
+  describeIneligibleReturn,
+  describeMissingReturnOrder,
+  describeReturnAuthorization,
+  getReturnPolicy,
+} from './returns';
+import { createTicket } from './tickets';
+import { describeOpeningStatus, describeWeeklyHours, getBusinessHours, getOpeningStatus } from './business-hours';
+
+export interface ToolContext {
+  apiKeys: ApiKeys;
+  settings: AgentSettings;
+  language: LanguageCode;
+  // Called once each invocation finishes, so the call can log it
+  onToolEvent?: (invocation: ToolInvocation) => void;
+}
+
+export interface AgentTool<TArgs extends z.ZodTypeAny = z.ZodTypeAny> {
+  name: string;
+  // Tells the LLM when to use the tool
+  description: string;
+  parameters: TArgs;
+  handler(args: z.infer<TArgs>, context: ToolContext): Promise<unknown>;
+}
+
+// One call to a tool, as logged in the call session
+export interface ToolInvocation {
+  id: string;
+  name: string;
+  args: unknown;
+  result?: unknown;
+  error?: string;
+  startedAt: string;
+  finishedAt: string;
+}
+
+const tools = new Map<string, AgentTool>();
+
+export function registerTool<TArgs extends z.ZodTypeAny>(tool: AgentTool<TArgs>): void {
+  tools.set(tool.name, tool as AgentTool);
+}
+
+export function getTool(name: string): AgentTool | undefined {
+  return tools.get(name);
+}
+
+export function listTools(): AgentTool[] {
+  return Array.from(tools.values());
+}
+
+// Validate the arguments and run the tool; failures are captured in the invocation rather than thrown
+export async function invokeTool(name: string, args: unknown, context: ToolContext): Promise<ToolInvocation> {
+  const invocation: ToolInvocation = {
+    id: crypto.randomUUID(),
+    name,
+    args,
+    startedAt: new Date().toISOString(),
+    finishedAt: '',
+  };
+
+  const tool = getTool(name);
+  try {
+    if (!tool) {
+      throw new Error(`Unknown tool: ${name}`);
+    }
+    const parsed = tool.parameters.safeParse(args);
+    if (!parsed.success) {
+      throw new Error(`Invalid arguments: ${parsed.error.issues.map(issue => `${issue.path.join('.')} ${issue.message}`).join('; ')}`);
+    }
+    invocation.result = await tool.handler(parsed.data, context);
+  } catch (error) {
+    console.error(`Error invoking tool ${name}:`, error);
+    invocation.error = (error as Error).message;
+  }
+
+  invocation.finishedAt = new Date().toISOString();
+  context.onToolEvent?.(invocation);
+  return invocation;
+}
+
+// JSON Schema for the zod types tools use, as chat-completions function calling expects
+export function toJsonSchema(schema: z.ZodTypeAny): Record<string, unknown> {
+  const description = schema.description ? { description: schema.description } : {};
+
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable || schema instanceof z.ZodDefault) {
+    return { ...toJsonSchema(schema._def.innerType), ...description };
+  }
+  if (schema instanceof z.ZodObject) {
+    const shape = schema.shape as Record<string, z.ZodTypeAny>;
+    const required = Object.keys(shape).filter(key => !shape[key].isOptional());
+    return {
+      type: 'object',
+      properties: Object.fromEntries(Object.entries(shape).map(([key, value]) => [key, toJsonSchema(value)])),
+      required,
+      additionalProperties: false,
+      ...description,
+    };
+  }
+  if (schema instanceof z.ZodArray) {
+    return { type: 'array', items: toJsonSchema(schema.element), ...description };
+  }
+  if (schema instanceof z.ZodEnum) {
+    return { type: 'string', enum: schema.options, ...description };
+  }
+  if (schema instanceof z.ZodString) return { type: 'string', ...description };
+  if (schema instanceof z.ZodNumber) return { type: 'number', ...description };
+  if (schema instanceof z.ZodBoolean) return { type: 'boolean', ...description };
+  throw new Error(`Unsupported tool parameter type: ${schema._def.typeName}`);
+}
+
+// The registered tools in the chat-completions `tools` format
+export function toolDefinitions(): Array<{ type: 'function'; function: { name: string; description: string; parameters: Record<string, unknown> } }> {
+  return listTools().map(tool => ({
+    type: 'function',
+    function: { name: tool.name, description: tool.description, parameters: toJsonSchema(tool.parameters) },
+  }));
+}
+
+const orderNumber = z.string().min(1).describe('The order number, e.g. 100234');
+const orderEmail = z.string().email().describe('Email address the order was placed with');
+
+registerTool({
+  name: 'lookupOrder',
+  description: "Look up an order's status, items and shipping details. Ask the caller for the order number and the email address on the order first.",
+  parameters: z.object({
+    orderNumber,
+    email: orderEmail,
+  }),
+  async handler({ orderNumber, email }, { settings, apiKeys }) {
+    const order = await findOrder(orderNumber, email, settings.orders, apiKeys.orderApiKey);
+    return order ?? { found: false, message: 'No order with that number and email address' };
+  },
+});
+
+const purchaseDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD').optional()
+  .describe("When the caller says they bought or received it, YYYY-MM-DD; the order's delivery date is used instead when it has one");
+const originalCondition = z.boolean().optional()
+  .describe('Whether the caller says the items are unused and in their original packaging');
+
+registerTool({
+  name: 'checkReturnEligibility',
+  description: 'Check whether an order can still be returned under the return policy, and which items qualify. Ask the caller for the order number and the email address on the order first.',
+  parameters: z.object({
+    orderNumber,
+    email: orderEmail,
+    purchaseDate,
+    originalCondition,
+  }),
+  async handler({ orderNumber, email, purchaseDate, originalCondition }, { settings, apiKeys, language }) {
+    const order = await findOrder(orderNumber, email, settings.orders, apiKeys.orderApiKey);
+    if (!order) {
+      return { found: false, message: describeMissingReturnOrder(orderNumber, email, language) };
+    }
+    const policy = getReturnPolicy();
+    const eligibility = checkReturnEligibility(order, { purchaseDate, originalCondition }, policy);
+    return {
+      found: true,
+      orderNumber: order.orderNumber,
+      ...eligibility,
+      message: eligibility.eligible
+        ? describeDateConflict(order, eligibility, language) || undefined
+        : describeIneligibleReturn(order, eligibility, policy, language),
+    };
+  },
+});
+
+registerTool({
+  name: 'createReturnAuthorization',
+  description: 'Start a return: checks eligibility and, when the order qualifies, issues an RMA number. Needs the email address on the order. Read the returned message to the caller.',
+  parameters: z.object({
+    orderNumber,
+    email: orderEmail,
+    purchaseDate,
+    originalCondition,
+  }),
+  async handler({ orderNumber, email, purchaseDate, originalCondition }, { settings, apiKeys, language }) {
+    // Only the customer who placed the order can return it
+    const order = await findOrder(orderNumber, email, settings.orders, apiKeys.orderApiKey);
+    if (!order) {
+      return { found: false, eligible: false, message: describeMissingReturnOrder(orderNumber, email, language) };
+    }
+
+    const policy = getReturnPolicy();
+    const eligibility = checkReturnEligibility(order, { purchaseDate, originalCondition }, policy);
+    if (!eligibility.eligible) {
+      return { found: true, ...eligibility, message: describeIneligibleReturn(order, eligibility, policy, language) };
+    }
+
+    const authorization = createReturnAuthorization(order, eligibility, { purchaseDate, originalCondition }, language);
+    const message = [describeDateConflict(order, eligibility, language), describeReturnAuthorization(authorization, language)].filter(Boolean).join(' ');
+    return { found: true, eligible: true, authorization, message };
+  },
+});
+
+registerTool({
+  name: 'createTicket',
+  description: "Open a support ticket for the team to follow up on something you can't resolve on the call. Tell the caller the ticket ID.",
+  parameters: z.object({
+    summary: z.string().min(1).describe("One or two sentences on what the caller needs"),
+    priority: z.enum(['low', 'normal', 'high']).default('normal'),
+    email: z.string().email().optional().describe('Where the team should reply'),
+    orderNumber: orderNumber.optional(),
+  }),
+  async handler({ summary, priority, email, orderNumber }) {
+    const ticket = createTicket({ summary, priority, email, orderNumber });
+    return { ticketId: ticket.id };
+  },
+});
+
+registerTool({
+  name: 'getOpeningHours',
+  description: "Check whether the business is open right now, when it next opens or closes, and the regular weekly hours, including holidays.",
+  parameters: z.object({}),
+  async handler(_, { language }) {
+    const hours = getBusinessHours();
+    return {
+      ...getOpeningStatus(hours),
+      timezone: hours.timezone,
+      summary: describeOpeningStatus(hours, language),
+      weeklyHours: describeWeeklyHours(hours, language),
+    };
+  },
+});
@@ -0,0 +1,317 @@
+// Text-to-Speech providers selectable per agent, with audio format negotiation
+
+import type { ApiKeys } from './ai-services';
+import { DEFAULT_BASE_URLS, TextToSpeechProviderId, TextToSpeechSettings } from './settings';
+import { trimTrailingSlash } from './utils';
+import { LanguageCode, SUPPORTED_LANGUAGES } from './languages';
+
+// 'pcm' is raw 16-bit little-endian mono; 'speech' means the browser speaks the text itself
+export type AudioFormat = 'mp3' | 'wav' | 'pcm' | 'speech';
+
+// Audio arrives either fully buffered (data) or as a response body still streaming in (stream)
+export interface SynthesizedSpeech {
+  format: AudioFormat;
+  text: string;
+  data?: ArrayBuffer;
+  stream?: ReadableStream<Uint8Array>;
+  sampleRate?: number;
+  voice?: string;
+  // BCP 47 locale, used by the browser voice
+  language?: string;
+}
+
+export interface TextToSpeechContext {
+  apiKeys: ApiKeys;
+  settings: TextToSpeechSettings;
+  // Language the text is written in
+  language?: LanguageCode;
+}
+
+// Voice configured for this language, falling back to the agent's main voice
+function voiceForLanguage(settings: TextToSpeechSettings, language?: LanguageCode): string {
+  return (language && settings.languageVoices[language]) || settings.voice;
+}
+
+export interface TextToSpeechProvider {
+  id: TextToSpeechProviderId;
+  label: string;
+  // Endpoint used when the base URL setting is blank; empty when one must be set
+  defaultBaseUrl: string;
+  defaultModel: string;
+  defaultVoice: string;
+  // Formats the provider can return, in order of preference
+  formats: AudioFormat[];
+  isConfigured(context: TextToSpeechContext): boolean;
+  synthesize(text: string, format: AudioFormat, context: TextToSpeechContext): Promise<SynthesizedSpeech>;
+}
+
+const providers = new Map<TextToSpeechProviderId, TextToSpeechProvider>();
+
+export function registerTextToSpeechProvider(provider: TextToSpeechProvider): void {
+  providers.set(provider.id, provider);
+}
+
+export function getTextToSpeechProvider(id: TextToSpeechProviderId): TextToSpeechProvider {
+  const provider = providers.get(id);
+  if (!provider) {
+    throw new Error(`Unknown text-to-speech provider: ${id}`);
+  }
+  return provider;
+}
+
+export function listTextToSpeechProviders(): TextToSpeechProvider[] {
+  return Array.from(providers.values());
+}
+
+const formatMimeTypes: Record<AudioFormat, string> = {
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  pcm: 'audio/pcm',
+  speech: '',
+};
+
+export function audioFormatMimeType(format: AudioFormat): string {
+  return formatMimeTypes[format];
+}
+
+// Hand MP3 and PCM bodies over unread so playback can start on the first bytes; WAV needs the whole file
+async function toSynthesizedSpeech(response: Response, format: AudioFormat, text: string, sampleRate?: number): Promise<SynthesizedSpeech> {
+  if ((format === 'mp3' || format === 'pcm') && response.body) {
+    return { format, text, stream: response.body, sampleRate };
+  }
+  return { format, text, data: await response.arrayBuffer(), sampleRate };
+}
+
+// Whether this browser can play the given format through playAudio
+export function canPlayAudioFormat(format: AudioFormat): boolean {
+  if (format === 'speech') {
+    return typeof window !== 'undefined' && 'speechSynthesis' in window;
+  }
+  if (typeof AudioContext === 'undefined') {
+    return false;
+  }
+  if (format === 'pcm') {
+    return true;
+  }
+  return document.createElement('audio').canPlayType(formatMimeTypes[format]) !== '';
+}
+
+// Pick the provider's most preferred format that the browser can play
+export function negotiateAudioFormat(provider: TextToSpeechProvider): AudioFormat {
+  const format = provider.formats.find(canPlayAudioFormat);
+  if (!format) {
+    throw new Error(`${provider.label} offers no audio format this browser can play`);
+  }
+  return format;
+}
+
+// Shared request for the OpenAI /v1/audio/speech contract
+async function synthesizeWithOpenAISpeechApi(
+  baseUrl: string,
+  apiKey: string,
+  text: string,
+  format: AudioFormat,
+  model: string,
+  voice: string
+): Promise<SynthesizedSpeech> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (apiKey) {
+    headers['Authorization'] = `Bearer ${apiKey}`;
+  }
+
+  const response = await fetch(`${trimTrailingSlash(baseUrl)}/v1/audio/speech`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({
+      model,
+      voice,
+      input: text,
+      response_format: format,
+    }),
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`Speech API error: ${error}`);
+  }
+
+  // OpenAI returns PCM as 24kHz 16-bit mono
+  return toSynthesizedSpeech(response, format, text, format === 'pcm' ? 24000 : undefined);
+}
+
+const ELEVENLABS_MULTILINGUAL_MODEL = 'eleven_multilingual_v2';
+
+// ElevenLabs text-to-speech
+registerTextToSpeechProvider({
+  id: 'elevenlabs',
+  label: 'ElevenLabs',
+  defaultBaseUrl: DEFAULT_BASE_URLS.elevenlabs,
+  defaultModel: 'eleven_monolingual_v1',
+  // Rachel voice
+  defaultVoice: '21m00Tcm4TlvDq8ikWAM',
+  formats: ['mp3', 'pcm'],
+  isConfigured: ({ apiKeys }) => !!apiKeys.elevenlabsKey,
+  async synthesize(text, format, { apiKeys, settings, language }) {
+    if (!apiKeys.elevenlabsKey) {
+      throw new Error('ElevenLabs API key not configured');
+    }
+
+    const voiceId = voiceForLanguage(settings, language) || this.defaultVoice;
+    // English-only models can't speak other languages; switch to the multilingual model for those
+    const model = settings.model || this.defaultModel;
+    const modelId = language && language !== 'en' && model.includes('monolingual') ? ELEVENLABS_MULTILINGUAL_MODEL : model;
+    const outputFormat = format === 'pcm' ? 'pcm_24000' : 'mp3_44100_128';
+
+    const baseUrl = trimTrailingSlash(settings.baseUrl || this.defaultBaseUrl);
+    const response = await fetch(`${baseUrl}/v1/text-to-speech/${voiceId}/stream?output_format=${outputFormat}`, {
+      method: 'POST',
+      headers: {
+        'Accept': audioFormatMimeType(format),
+        'Content-Type': 'application/json',
+        'xi-api-key': apiKeys.elevenlabsKey,
+      },
+      body: JSON.stringify({
+        text: text,
+        model_id: modelId,
+        voice_settings: {
+          stability: settings.voiceSettings.stability,
+          similarity_boost: settings.voiceSettings.similarityBoost,
+          style: settings.voiceSettings.style,
+        },
+      }),
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`ElevenLabs API error: ${error}`);
+    }
+
+    return toSynthesizedSpeech(response, format, text, format === 'pcm' ? 24000 : undefined);
+  },
+});
+
+// OpenAI TTS, or any proxy in front of it when a base URL is set
+registerTextToSpeechProvider({
+  id: 'openai-tts',
+  label: 'OpenAI TTS',
+  defaultBaseUrl: DEFAULT_BASE_URLS.openai,
+  defaultModel: 'tts-1',
+  defaultVoice: 'alloy',
+  formats: ['mp3', 'wav', 'pcm'],
+  isConfigured: ({ apiKeys }) => !!apiKeys.openaiKey,
+  async synthesize(text, format, { apiKeys, settings, language }) {
+    if (!apiKeys.openaiKey) {
+      throw new Error('OpenAI API key not configured');
+    }
+    return synthesizeWithOpenAISpeechApi(
+      settings.baseUrl || this.defaultBaseUrl,
+      apiKeys.openaiKey,
+      text,
+      format,
+      settings.model || this.defaultModel,
+      voiceForLanguage(settings, language) || this.defaultVoice
+    );
+  },
+});
+
+// Local server exposing the OpenAI speech API (openedai-speech, Kokoro-FastAPI, LocalAI, ...)
+registerTextToSpeechProvider({
+  id: 'openai-compatible-tts',
+  label: 'Local TTS server (OpenAI-compatible)',
+  defaultBaseUrl: '',
+  defaultModel: 'tts-1',
+  defaultVoice: 'alloy',
+  formats: ['wav', 'mp3'],
+  isConfigured: ({ settings }) => !!settings.baseUrl,
+  async synthesize(text, format, { settings, language }) {
+    if (!settings.baseUrl) {
+      throw new Error('TTS server URL not configured');
+    }
+    return synthesizeWithOpenAISpeechApi(
+      settings.baseUrl,
+      '',
+      text,
+      format,
+      settings.model || this.defaultModel,
+      voiceForLanguage(settings, language) || this.defaultVoice
+    );
+  },
+});
+
+// Browser speechSynthesis fallback; needs no network or key
+registerTextToSpeechProvider({
+  id: 'browser',
+  label: 'Browser speech synthesis',
+  defaultBaseUrl: '',
+  defaultModel: '',
+  defaultVoice: '',
+  formats: ['speech'],
+  isConfigured: () => canPlayAudioFormat('speech'),
+  async synthesize(text, format, { settings, language }) {
+    return {
+      format,
+      text,
+      voice: voiceForLanguage(settings, language) || undefined,
+      language: language ? SUPPORTED_LANGUAGES[language].locale : undefined,
+    };
+  },
+});
+
+const TONE_SAMPLE_RATE = 16000;
+
+// Render a short run of soft blips, roughly one per word, as a 16-bit mono WAV file
+function renderToneWav(text: string): ArrayBuffer {
+  const words = Math.max(1, Math.min(text.split(/\s+/).filter(Boolean).length, 40));
+  const blipSeconds = 0.12;
+  const gapSeconds = 0.06;
+  const blipSamples = Math.floor(blipSeconds * TONE_SAMPLE_RATE);
+  const gapSamples = Math.floor(gapSeconds * TONE_SAMPLE_RATE);
+  const totalSamples = words * (blipSamples + gapSamples);
+
+  const buffer = new ArrayBuffer(44 + totalSamples * 2);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + totalSamples * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, 1, true);
+  view.setUint32(24, TONE_SAMPLE_RATE, true);
+  view.setUint32(28, TONE_SAMPLE_RATE * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, totalSamples * 2, true);
+
+  for (let word = 0; word < words; word++) {
+    // Vary the pitch a little so it sounds like speech cadence rather than a beep
+    const frequency = 440 + ((word * 7) % 5) * 40;
+    const start = word * (blipSamples + gapSamples);
+    for (let i = 0; i < blipSamples; i++) {
+      const envelope = Math.sin((Math.PI * i) / blipSamples);
+      const sample = Math.sin((2 * Math.PI * frequency * i) / TONE_SAMPLE_RATE) * envelope * 0.3;
+      view.setInt16(44 + (start + i) * 2, sample * 32767, true);
+    }
+  }
+
+  return buffer;
+}
+
+// Offline stand-in voice for demos and CI; generated locally, so it works without network access
+registerTextToSpeechProvider({
+  id: 'demo-tone',
+  label: 'Demo tone (offline)',
+  defaultBaseUrl: '',
+  defaultModel: '',
+  defaultVoice: '',
+  formats: ['wav'],
+  isConfigured: () => true,
+  async synthesize(text, format) {
+    return { format, text, data: renderToneWav(text) };
+  },
+});
@@ -4,3 +4,12 @@ import { twMerge } from "tailwind-merge";
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
+
+export function trimTrailingSlash(url: string): string {
+  return url.replace(/\/+$/, "");
+}
+
+// Replace {name} placeholders; names without a value become blank
+export function fillTemplate(template: string, values: Record<string, string | undefined>): string {
+  return template.replace(/\{(\w+)\}/g, (_, name) => values[name] ?? "").replace(/\s{2,}/g, " ").trim();
+}
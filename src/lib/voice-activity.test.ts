@@ -0,0 +1,83 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createUtteranceSegmenter, encodeWav } from './voice-activity';
+
+// 20 ms frames at 16 kHz
+const SAMPLE_RATE = 16000;
+const FRAME_LENGTH = 320;
+
+const frame = (level: number) => new Float32Array(FRAME_LENGTH).fill(level);
+const quiet = (count: number) => Array.from({ length: count }, () => frame(0.001));
+const loud = (count: number) => Array.from({ length: count }, () => frame(0.2));
+
+const segment = (frames: Float32Array[], trailingSilenceMs = 600) => {
+  const events = { onSpeechStart: vi.fn(), onSpeechEnd: vi.fn(), onUtterance: vi.fn() };
+  const segmenter = createUtteranceSegmenter({ sampleRate: SAMPLE_RATE, trailingSilenceMs, ...events });
+  frames.forEach(next => segmenter.push(next));
+  return { ...events, segmenter };
+};
+
+describe('createUtteranceSegmenter', () => {
+  it('ignores a click too short to be the start of speech', () => {
+    const { onSpeechStart, onUtterance } = segment([...quiet(10), ...loud(2), ...quiet(50)]);
+    expect(onSpeechStart).not.toHaveBeenCalled();
+    expect(onUtterance).not.toHaveBeenCalled();
+  });
+
+  it('keeps a pause shorter than the trailing silence inside one utterance', () => {
+    const { onSpeechStart, onSpeechEnd, onUtterance } = segment([...quiet(10), ...loud(20), ...quiet(15), ...loud(20), ...quiet(40)]);
+    expect(onSpeechStart).toHaveBeenCalledTimes(1);
+    expect(onSpeechEnd).toHaveBeenCalledTimes(1);
+    expect(onUtterance).toHaveBeenCalledTimes(1);
+
+    // 200 ms of pre-roll, 1100 ms of speech and pause, and a 200 ms tail of the final silence
+    const [samples] = onUtterance.mock.calls[0] as [Float32Array];
+    expect(samples.length).toBe(75 * FRAME_LENGTH);
+    expect(samples[0]).toBeCloseTo(0.001);
+    expect(samples[samples.length - 1]).toBeCloseTo(0.001);
+  });
+
+  it('splits at a pause as long as the trailing silence', () => {
+    const { onUtterance } = segment([...quiet(10), ...loud(20), ...quiet(30), ...loud(20), ...quiet(30)]);
+    expect(onUtterance).toHaveBeenCalledTimes(2);
+  });
+
+  it('drops a blip with too little speech to be worth transcribing', () => {
+    const { onSpeechStart, onSpeechEnd, onUtterance } = segment([...quiet(10), ...loud(8), ...quiet(40)]);
+    expect(onSpeechStart).toHaveBeenCalledTimes(1);
+    expect(onSpeechEnd).toHaveBeenCalledTimes(1);
+    expect(onUtterance).not.toHaveBeenCalled();
+  });
+
+  it('cuts off an utterance that runs too long', () => {
+    const { onUtterance } = segment([...quiet(10), ...loud(1600)]);
+    expect(onUtterance).toHaveBeenCalledTimes(1);
+  });
+
+  it('drops the utterance in progress on reset', () => {
+    const { onSpeechEnd, onUtterance, segmenter } = segment([...quiet(10), ...loud(20)]);
+    segmenter.reset();
+    quiet(40).forEach(next => segmenter.push(next));
+    expect(onSpeechEnd).toHaveBeenCalledTimes(1);
+    expect(onUtterance).not.toHaveBeenCalled();
+  });
+});
+
+describe('encodeWav', () => {
+  it('writes a 16-bit mono PCM header and clamps the samples', async () => {
+    const wav = encodeWav(new Float32Array([0, 1, -1, 2]), 16000);
+    expect(wav.type).toBe('audio/wav');
+
+    const view = new DataView(await wav.arrayBuffer());
+    const text = (offset: number) => String.fromCharCode(...new Uint8Array(view.buffer, offset, 4));
+    expect(view.byteLength).toBe(44 + 8);
+    expect([text(0), text(8), text(12), text(36)]).toEqual(['RIFF', 'WAVE', 'fmt ', 'data']);
+    expect(view.getUint32(4, true)).toBe(36 + 8);
+    expect(view.getUint16(20, true)).toBe(1);
+    expect(view.getUint16(22, true)).toBe(1);
+    expect(view.getUint32(24, true)).toBe(16000);
+    expect(view.getUint32(28, true)).toBe(32000);
+    expect(view.getUint16(34, true)).toBe(16);
+    expect(view.getUint32(40, true)).toBe(8);
+    expect([0, 1, 2, 3].map(index => view.getInt16(44 + index * 2, true))).toEqual([0, 32767, -32768, 32767]);
+  });
+});
@@ -0,0 +1,297 @@
+// Voice activity detection on the live microphone stream: an utterance starts when the caller starts speaking and
+// ends after a stretch of silence, so speech-to-text gets whole sentences instead of fixed-length windows
+
+// Length of each analysed frame
+const FRAME_MS = 20;
+// Loud frames in a row before it counts as speech, so clicks and bumps don't start an utterance
+const SPEECH_ONSET_MS = 100;
+// Audio kept from just before the onset, so the first syllable isn't clipped
+const PRE_ROLL_MS = 300;
+// Trailing silence left on the end of an utterance; the rest is trimmed off before upload
+const TAIL_MS = 200;
+// Utterances with less speech than this are dropped as noise, like a cough
+const MIN_SPEECH_MS = 250;
+// Long monologues are cut here and sent as they are
+const MAX_UTTERANCE_MS = 30000;
+
+// RMS level speech has to clear however quiet the room is (about -40 dBFS)
+const MIN_SPEECH_LEVEL = 0.01;
+// How far over the background noise a frame has to be to count as speech
+const NOISE_RATIO = 3;
+// How quickly the background noise estimate follows the room between utterances
+const NOISE_ADAPTATION = 0.05;
+
+// Speech-to-text models work at 16 kHz, so there's no point uploading more
+const OUTPUT_SAMPLE_RATE = 16000;
+
+const FRAME_PROCESSOR_NAME = 'voice-activity-frames';
+
+// Runs on the audio thread and hands the main thread one frame of mono samples at a time
+const FRAME_PROCESSOR_SOURCE = `
+class FrameProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    this.frame = new Float32Array(options.processorOptions.frameSize);
+    this.length = 0;
+  }
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (channel) {
+      for (let i = 0; i < channel.length; i++) {
+        this.frame[this.length++] = channel[i];
+        if (this.length === this.frame.length) {
+          this.port.postMessage(this.frame.slice());
+          this.length = 0;
+        }
+      }
+    }
+    return true;
+  }
+}
+registerProcessor('${FRAME_PROCESSOR_NAME}', FrameProcessor);
+`;
+
+export interface UtteranceSegmenterOptions {
+  sampleRate: number;
+  // Silence after speech that ends the utterance
+  trailingSilenceMs: number;
+  onSpeechStart?: () => void;
+  // Called when an utterance ends, whether or not it had enough speech to keep
+  onSpeechEnd?: () => void;
+  // A finished utterance, pre-roll included and trailing silence trimmed
+  onUtterance: (samples: Float32Array) => void;
+}
+
+export interface UtteranceSegmenter {
+  push(frame: Float32Array): void;
+  // Drop any utterance in progress
+  reset(): void;
+}
+
+function rootMeanSquare(samples: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) {
+    sum += samples[i] * samples[i];
+  }
+  return Math.sqrt(sum / samples.length);
+}
+
+function concatSamples(frames: Float32Array[]): Float32Array {
+  const samples = new Float32Array(frames.reduce((length, frame) => length + frame.length, 0));
+  let offset = 0;
+  for (const frame of frames) {
+    samples.set(frame, offset);
+    offset += frame.length;
+  }
+  return samples;
+}
+
+// Splits a stream of frames into utterances by comparing each frame's energy with the background noise
+export function createUtteranceSegmenter(options: UtteranceSegmenterOptions): UtteranceSegmenter {
+  const frameMs = (frameLength: number) => (frameLength / options.sampleRate) * 1000;
+
+  let noiseLevel: number | null = null;
+  let speaking = false;
+  // Before the onset: the latest frames, for the pre-roll; after it: the utterance so far
+  let frames: Float32Array[] = [];
+  let loudMs = 0;
+  let voicedMs = 0;
+  let silentMs = 0;
+  let utteranceMs = 0;
+
+  const finish = () => {
+    // Keep a short tail so the last word isn't cut off, but don't upload the whole pause
+    let trimMs = silentMs - TAIL_MS;
+    while (trimMs > 0 && frames.length) {
+      trimMs -= frameMs(frames.pop()!.length);
+    }
+    const utterance = voicedMs >= MIN_SPEECH_MS ? concatSamples(frames) : null;
+    speaking = false;
+    frames = [];
+    loudMs = 0;
+    options.onSpeechEnd?.();
+    if (utterance) {
+      options.onUtterance(utterance);
+    }
+  };
+
+  return {
+    push(frame) {
+      const level = rootMeanSquare(frame);
+      const isLoud = level > Math.max(MIN_SPEECH_LEVEL, (noiseLevel ?? level) * NOISE_RATIO);
+      const duration = frameMs(frame.length);
+
+      if (!speaking) {
+        frames.push(frame);
+        let keptMs = frames.reduce((total, kept) => total + frameMs(kept.length), 0);
+        while (keptMs - frameMs(frames[0].length) >= PRE_ROLL_MS + SPEECH_ONSET_MS) {
+          keptMs -= frameMs(frames.shift()!.length);
+        }
+
+        if (!isLoud) {
+          loudMs = 0;
+          noiseLevel = noiseLevel === null ? level : noiseLevel + (level - noiseLevel) * NOISE_ADAPTATION;
+          return;
+        }
+        loudMs += duration;
+        if (loudMs >= SPEECH_ONSET_MS) {
+          speaking = true;
+          voicedMs = loudMs;
+          silentMs = 0;
+          utteranceMs = keptMs;
+          options.onSpeechStart?.();
+        }
+        return;
+      }
+
+      frames.push(frame);
+      utteranceMs += duration;
+      if (isLoud) {
+        voicedMs += duration;
+        silentMs = 0;
+      } else {
+        silentMs += duration;
+      }
+      if (silentMs >= options.trailingSilenceMs || utteranceMs >= MAX_UTTERANCE_MS) {
+        finish();
+      }
+    },
+    reset() {
+      if (speaking) {
+        options.onSpeechEnd?.();
+      }
+      speaking = false;
+      frames = [];
+      loudMs = 0;
+    },
+  };
+}
+
+// Averages each run of input samples down to one output sample
+function downsample(samples: Float32Array, fromRate: number, toRate: number): Float32Array {
+  if (toRate >= fromRate) return samples;
+  const ratio = fromRate / toRate;
+  const output = new Float32Array(Math.floor(samples.length / ratio));
+  for (let i = 0; i < output.length; i++) {
+    const start = Math.floor(i * ratio);
+    const end = Math.min(samples.length, Math.floor((i + 1) * ratio));
+    let sum = 0;
+    for (let j = start; j < end; j++) {
+      sum += samples[j];
+    }
+    output[i] = sum / (end - start);
+  }
+  return output;
+}
+
+// 16-bit PCM WAV, which every speech-to-text provider accepts
+export function encodeWav(samples: Float32Array, sampleRate: number): Blob {
+  const buffer = new ArrayBuffer(44 + samples.length * 2);
+  const view = new DataView(buffer);
+  const writeText = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) {
+      view.setUint8(offset + i, text.charCodeAt(i));
+    }
+  };
+
+  writeText(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeText(8, 'WAVE');
+  writeText(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, 1, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeText(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(44 + i * 2, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+  }
+
+  return new Blob([buffer], { type: 'audio/wav' });
+}
+
+export interface VoiceActivityOptions {
+  stream: MediaStream;
+  audioContext: AudioContext;
+  trailingSilenceMs: number;
+  onSpeechStart?: () => void;
+  onSpeechEnd?: () => void;
+  // One whole utterance, as 16 kHz mono WAV
+  onUtterance: (audio: Blob) => void;
+}
+
+export interface VoiceActivityDetector {
+  // Listen for utterances; nothing is captured while stopped
+  start(): void;
+  stop(): void;
+  // Disconnect from the stream for good
+  close(): void;
+}
+
+// The frame processor can only be registered once per audio context
+const contextsWithProcessor = new WeakSet<AudioContext>();
+
+async function loadFrameProcessor(audioContext: AudioContext): Promise<void> {
+  if (contextsWithProcessor.has(audioContext)) return;
+  const url = URL.createObjectURL(new Blob([FRAME_PROCESSOR_SOURCE], { type: 'application/javascript' }));
+  try {
+    await audioContext.audioWorklet.addModule(url);
+    contextsWithProcessor.add(audioContext);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+export async function createVoiceActivityDetector(options: VoiceActivityOptions): Promise<VoiceActivityDetector> {
+  const { audioContext } = options;
+  await loadFrameProcessor(audioContext);
+
+  const source = audioContext.createMediaStreamSource(options.stream);
+  const processor = new AudioWorkletNode(audioContext, FRAME_PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 0,
+    channelCount: 1,
+    channelCountMode: 'explicit',
+    processorOptions: { frameSize: Math.round((audioContext.sampleRate * FRAME_MS) / 1000) },
+  });
+  source.connect(processor);
+
+  const segmenter = createUtteranceSegmenter({
+    sampleRate: audioContext.sampleRate,
+    trailingSilenceMs: options.trailingSilenceMs,
+    onSpeechStart: options.onSpeechStart,
+    onSpeechEnd: options.onSpeechEnd,
+    onUtterance: (samples) => {
+      const audio = downsample(samples, audioContext.sampleRate, OUTPUT_SAMPLE_RATE);
+      options.onUtterance(encodeWav(audio, Math.min(audioContext.sampleRate, OUTPUT_SAMPLE_RATE)));
+    },
+  });
+
+  let listening = false;
+  processor.port.onmessage = (event: MessageEvent<Float32Array>) => {
+    if (listening) {
+      segmenter.push(event.data);
+    }
+  };
+
+  return {
+    start() {
+      listening = true;
+    },
+    stop() {
+      listening = false;
+      segmenter.reset();
+    },
+    close() {
+      listening = false;
+      segmenter.reset();
+      processor.port.onmessage = null;
+      source.disconnect();
+    },
+  };
+}
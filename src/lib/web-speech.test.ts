@@ -0,0 +1,52 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createWebSpeechRecognizer } from './web-speech';
+
+class FakeRecognition {
+  static latest: FakeRecognition;
+  onresult = null;
+  onerror: ((event: { error: string }) => void) | null = null;
+  onend: (() => void) | null = null;
+  start = vi.fn();
+  stop = vi.fn();
+  abort = vi.fn();
+
+  constructor() {
+    FakeRecognition.latest = this;
+  }
+
+  // The browser reports an error, then ends the session
+  fail(error: string) {
+    this.onerror?.({ error });
+    this.onend?.();
+  }
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('createWebSpeechRecognizer', () => {
+  const start = () => {
+    vi.stubGlobal('window', { SpeechRecognition: FakeRecognition });
+    const onError = vi.fn();
+    const recognizer = createWebSpeechRecognizer({ language: 'en-US', onInterim: vi.fn(), onFinal: vi.fn(), onError });
+    recognizer.start();
+    return { recognition: FakeRecognition.latest, onError };
+  };
+
+  it('restarts quietly after a stretch of silence', () => {
+    const { recognition, onError } = start();
+    recognition.fail('no-speech');
+    expect(recognition.start).toHaveBeenCalledTimes(2);
+    expect(onError).not.toHaveBeenCalled();
+  });
+
+  it.each(['not-allowed', 'service-not-allowed', 'network', 'audio-capture'])('stops and reports "%s" once', (error) => {
+    const { recognition, onError } = start();
+    recognition.fail(error);
+    recognition.fail(error);
+    expect(recognition.start).toHaveBeenCalledTimes(1);
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(onError.mock.calls[0][0].message).toContain(error);
+  });
+});
@@ -0,0 +1,139 @@
+// Browser-native transcription through the Web Speech API (SpeechRecognition)
+
+// Minimal typings; the DOM lib that ships with TypeScript does not declare SpeechRecognition
+interface SpeechRecognitionAlternative {
+  transcript: string;
+}
+
+interface SpeechRecognitionResult {
+  readonly isFinal: boolean;
+  readonly length: number;
+  [index: number]: SpeechRecognitionAlternative;
+}
+
+interface SpeechRecognitionEvent extends Event {
+  readonly resultIndex: number;
+  readonly results: {
+    readonly length: number;
+    [index: number]: SpeechRecognitionResult;
+  };
+}
+
+interface SpeechRecognitionErrorEvent extends Event {
+  readonly error: string;
+}
+
+interface SpeechRecognition extends EventTarget {
+  continuous: boolean;
+  interimResults: boolean;
+  lang: string;
+  onresult: ((event: SpeechRecognitionEvent) => void) | null;
+  onerror: ((event: SpeechRecognitionErrorEvent) => void) | null;
+  onend: (() => void) | null;
+  start(): void;
+  stop(): void;
+  abort(): void;
+}
+
+type SpeechRecognitionConstructor = new () => SpeechRecognition;
+
+function getSpeechRecognitionConstructor(): SpeechRecognitionConstructor | null {
+  if (typeof window === 'undefined') return null;
+  const speechWindow = window as unknown as {
+    SpeechRecognition?: SpeechRecognitionConstructor;
+    webkitSpeechRecognition?: SpeechRecognitionConstructor;
+  };
+  return speechWindow.SpeechRecognition ?? speechWindow.webkitSpeechRecognition ?? null;
+}
+
+export function isWebSpeechSupported(): boolean {
+  return getSpeechRecognitionConstructor() !== null;
+}
+
+export interface WebSpeechCallbacks {
+  language: string;
+  // Best guess so far for the utterance in progress
+  onInterim: (transcript: string) => void;
+  // The recognizer has committed to this utterance
+  onFinal: (transcript: string) => void;
+  onError?: (error: Error) => void;
+}
+
+export interface WebSpeechRecognizer {
+  start(): void;
+  stop(): void;
+}
+
+// Errors that just mean nobody spoke; the recognizer is restarted instead of reporting them
+const IGNORED_ERRORS = ['no-speech', 'aborted'];
+// Errors restarting won't fix, like a blocked microphone; recognition stops until start() is called again
+const FATAL_ERRORS = ['not-allowed', 'service-not-allowed', 'network', 'audio-capture', 'language-not-supported'];
+
+export function createWebSpeechRecognizer(callbacks: WebSpeechCallbacks): WebSpeechRecognizer {
+  const SpeechRecognitionImpl = getSpeechRecognitionConstructor();
+  if (!SpeechRecognitionImpl) {
+    throw new Error('Web Speech API is not supported in this browser');
+  }
+
+  const recognition = new SpeechRecognitionImpl();
+  recognition.continuous = true;
+  recognition.interimResults = true;
+  recognition.lang = callbacks.language || navigator.language;
+
+  let listening = false;
+  let running = false;
+
+  recognition.onresult = (event) => {
+    let interim = '';
+    for (let i = event.resultIndex; i < event.results.length; i++) {
+      const result = event.results[i];
+      const transcript = result[0].transcript;
+      if (result.isFinal) {
+        callbacks.onFinal(transcript.trim());
+      } else {
+        interim += transcript;
+      }
+    }
+    callbacks.onInterim(interim.trim());
+  };
+
+  recognition.onerror = (event) => {
+    if (FATAL_ERRORS.includes(event.error)) {
+      // Report it once and let onend see there's nothing to restart
+      if (!listening) return;
+      listening = false;
+    } else if (IGNORED_ERRORS.includes(event.error)) {
+      return;
+    }
+    callbacks.onError?.(new Error(`Speech recognition error: ${event.error}`));
+  };
+
+  // Browsers end continuous recognition after a stretch of silence; keep it going while wanted
+  recognition.onend = () => {
+    running = false;
+    if (listening) {
+      startRecognition();
+    }
+  };
+
+  const startRecognition = () => {
+    if (running) return;
+    try {
+      recognition.start();
+      running = true;
+    } catch (error) {
+      callbacks.onError?.(error as Error);
+    }
+  };
+
+  return {
+    start() {
+      listening = true;
+      startRecognition();
+    },
+    stop() {
+      listening = false;
+      recognition.abort();
+    },
+  };
+}
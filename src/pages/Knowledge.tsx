@@ -0,0 +1,28 @@
+import { Link } from 'react-router-dom';
+import { ArrowLeft } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { KnowledgeBaseEditor } from '@/components/KnowledgeBaseEditor';
+import { DocumentLibrary } from '@/components/DocumentLibrary';
+import { BusinessHoursEditor } from '@/components/BusinessHoursEditor';
+import { ReturnPolicyEditor } from '@/components/ReturnPolicyEditor';
+
+const Knowledge = () => {
+  return (
+    <div className="min-h-screen bg-background p-4">
+      <div className="max-w-6xl mx-auto space-y-4">
+        <Button asChild variant="ghost" size="sm">
+          <Link to="/">
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Back to calls
+          </Link>
+        </Button>
+        <KnowledgeBaseEditor />
+        <DocumentLibrary />
+        <BusinessHoursEditor />
+        <ReturnPolicyEditor />
+      </div>
+    </div>
+  );
+};
+
+export default Knowledge;
@@ -0,0 +1,305 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { formatDistanceToNow, parseISO } from 'date-fns';
+import { ArrowLeft, CheckCircle2, Headset, PhoneCall, Send, Undo2, UserRound } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { TranscriptPanel } from '@/components/TranscriptPanel';
+import { CallSession } from '@/components/CallInterface';
+import { EscalationReason } from '@/lib/escalation';
+import {
+  EscalatedCall,
+  getEscalatedCalls,
+  LiveCall,
+  postOperatorEvent,
+  resolveEscalatedCall,
+  subscribeToOperatorEvents,
+} from '@/lib/operator-channel';
+import { getAgentSettings, OperatorSettings, saveAgentSettings } from '@/lib/settings';
+import { SUPPORTED_LANGUAGES } from '@/lib/languages';
+import { useToast } from '@/hooks/use-toast';
+
+const reasonLabels: Record<EscalationReason, string> = {
+  requested: 'Asked for a person',
+  'repeated-fallback': 'Agent stuck',
+  'negative-sentiment': 'Frustrated caller',
+};
+
+const statusLabels: Record<LiveCall['status'], string> = {
+  active: 'Agent',
+  escalated: 'Waiting',
+  operator: 'Operator',
+  ended: 'Ended',
+};
+
+// The transcript panel works on the call screen's session shape
+const toCallSession = (call: LiveCall): CallSession => ({
+  id: call.sessionId,
+  status: call.status,
+  startTime: parseISO(call.startTime),
+  endTime: call.endTime ? parseISO(call.endTime) : undefined,
+  messages: call.messages.map(message => ({ ...message, timestamp: parseISO(message.timestamp) })),
+  returns: call.returns,
+  handoff: call.handoff,
+});
+
+interface EscalationCardProps {
+  call: EscalatedCall;
+  // Absent once the call has ended or isn't reachable from here
+  onOpen?: () => void;
+  onResolve: () => void;
+}
+
+const EscalationCard = ({ call, onOpen, onResolve }: EscalationCardProps) => (
+  <Card className="p-4 shadow-card space-y-3">
+    <div className="flex items-center justify-between gap-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <Badge variant={call.resolvedAt ? 'secondary' : 'destructive'}>{reasonLabels[call.summary.reason]}</Badge>
+        <span className="text-sm font-medium">Session {call.sessionId}</span>
+        {call.summary.language !== 'en' && (
+          <Badge variant="outline">{SUPPORTED_LANGUAGES[call.summary.language].name}</Badge>
+        )}
+        <span className="text-xs text-muted-foreground">
+          {formatDistanceToNow(parseISO(call.summary.createdAt), { addSuffix: true })}
+        </span>
+      </div>
+      {!call.resolvedAt && (
+        <div className="flex gap-1">
+          {onOpen && (
+            <Button size="sm" variant="outline" onClick={onOpen}>
+              Open
+            </Button>
+          )}
+          <Button size="sm" variant="ghost" onClick={onResolve} title="Mark resolved">
+            <CheckCircle2 className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+    </div>
+    <p className="text-sm">{call.summary.text}</p>
+    {call.summary.details.length > 0 && (
+      <div className="flex flex-wrap gap-1">
+        {call.summary.details.map((detail) => (
+          <Badge key={detail} variant="outline" className="font-normal">{detail}</Badge>
+        ))}
+      </div>
+    )}
+    {call.summary.recentCustomerTurns.length > 0 && (
+      <div className="space-y-1 border-l-2 border-border pl-3 text-xs text-muted-foreground">
+        {call.summary.recentCustomerTurns.map((turn, index) => (
+          <p key={index}>"{turn}"</p>
+        ))}
+      </div>
+    )}
+  </Card>
+);
+
+// Calls in progress and calls the agent handed over, updated live from call tabs here and through the relay
+const Operator = () => {
+  const [liveCalls, setLiveCalls] = useState<Record<string, LiveCall>>({});
+  const [escalatedCalls, setEscalatedCalls] = useState<EscalatedCall[]>(() => getEscalatedCalls());
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [reply, setReply] = useState('');
+  const [relayUrl, setRelayUrl] = useState(() => getAgentSettings().operator.relayUrl);
+  const [relayToken, setRelayToken] = useState(() => getAgentSettings().operator.relayToken);
+  const { toast } = useToast();
+
+  // Resubscribes when the relay changes, asking calls to announce themselves each time
+  useEffect(() => {
+    const unsubscribe = subscribeToOperatorEvents((event) => {
+      switch (event.type) {
+        case 'call-updated':
+          setLiveCalls(prev => ({ ...prev, [event.call.sessionId]: event.call }));
+          break;
+        // From the payload rather than storage, which only has this browser's escalations
+        case 'escalated':
+          setEscalatedCalls(prev => [event.call, ...prev.filter(call => call.sessionId !== event.call.sessionId)]);
+          toast({ title: `Call ${event.call.sessionId} needs a person`, description: event.call.summary.text });
+          break;
+        case 'resolved':
+          setEscalatedCalls(prev => prev.map(call => call.sessionId === event.sessionId ? { ...call, resolvedAt: event.resolvedAt } : call));
+          break;
+      }
+    });
+    postOperatorEvent({ type: 'list-calls' });
+    return unsubscribe;
+  }, [relayUrl, relayToken, toast]);
+
+  const saveRelay = (patch: Partial<OperatorSettings>) => {
+    const settings = getAgentSettings();
+    const operator = { ...settings.operator, ...patch };
+    saveAgentSettings({ ...settings, operator });
+    setRelayUrl(operator.relayUrl);
+    setRelayToken(operator.relayToken);
+  };
+
+  const resolve = (sessionId: string) => {
+    resolveEscalatedCall(sessionId);
+    setEscalatedCalls(prev => prev.map(call => call.sessionId === sessionId ? { ...call, resolvedAt: new Date().toISOString() } : call));
+  };
+
+  const sendReply = () => {
+    if (!selectedId || !reply.trim()) return;
+    postOperatorEvent({ type: 'operator-reply', sessionId: selectedId, text: reply.trim() });
+    setReply('');
+  };
+
+  const calls = Object.values(liveCalls).sort((a, b) => b.startTime.localeCompare(a.startTime));
+  const selected = selectedId ? liveCalls[selectedId] : undefined;
+  const waiting = escalatedCalls.filter(call => !call.resolvedAt);
+  const resolved = escalatedCalls.filter(call => call.resolvedAt);
+
+  return (
+    <div className="min-h-screen bg-background p-4">
+      <div className="max-w-6xl mx-auto space-y-4">
+        <Button asChild variant="ghost" size="sm">
+          <Link to="/">
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Back to calls
+          </Link>
+        </Button>
+
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div className="flex items-center gap-2">
+            <Headset className="h-5 w-5" />
+            <h2 className="text-xl font-semibold">Operator</h2>
+            <Badge variant={waiting.length ? 'destructive' : 'secondary'}>{waiting.length} waiting</Badge>
+          </div>
+          <div className="flex items-center gap-2">
+            <Label htmlFor="operator-relay" className="text-sm whitespace-nowrap">Relay</Label>
+            <Input
+              id="operator-relay"
+              className="h-8 w-72"
+              placeholder="wss://relay.example.com (this browser only)"
+              defaultValue={relayUrl}
+              onBlur={(e) => saveRelay({ relayUrl: e.target.value.trim() })}
+            />
+            <Input
+              aria-label="Relay token"
+              type="password"
+              className="h-8 w-40"
+              placeholder="Token"
+              title="Shared secret relay messages are signed with; the same one as on the call screen"
+              defaultValue={relayToken}
+              onBlur={(e) => saveRelay({ relayToken: e.target.value.trim() })}
+            />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium text-muted-foreground">Live Calls</h3>
+              {calls.length === 0 ? (
+                <Card className="p-4 text-sm text-muted-foreground">No calls right now. Calls show up here as soon as they start.</Card>
+              ) : (
+                calls.map((call) => (
+                  <button
+                    key={call.sessionId}
+                    className={`w-full rounded-md border p-3 text-left text-sm transition-colors hover:bg-muted ${
+                      call.sessionId === selectedId ? 'border-primary' : 'border-border'
+                    }`}
+                    onClick={() => setSelectedId(call.sessionId)}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="flex items-center gap-2 font-medium">
+                        <PhoneCall className="h-4 w-4" />
+                        Session {call.sessionId}
+                      </span>
+                      <Badge variant={call.status === 'escalated' ? 'destructive' : call.status === 'ended' ? 'secondary' : 'outline'}>
+                        {statusLabels[call.status]}
+                      </Badge>
+                    </div>
+                    <p className="mt-1 truncate text-xs text-muted-foreground">
+                      {call.messages.filter(message => message.speaker !== 'system').slice(-1)[0]?.text || 'No messages yet'}
+                    </p>
+                  </button>
+                ))
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium text-muted-foreground">Escalations</h3>
+              {waiting.length === 0 ? (
+                <Card className="p-4 text-sm text-muted-foreground">No one is waiting.</Card>
+              ) : (
+                waiting.map((call) => (
+                  <EscalationCard
+                    key={call.sessionId}
+                    call={call}
+                    onOpen={liveCalls[call.sessionId] ? () => setSelectedId(call.sessionId) : undefined}
+                    onResolve={() => resolve(call.sessionId)}
+                  />
+                ))
+              )}
+              {resolved.map((call) => (
+                <EscalationCard key={call.sessionId} call={call} onResolve={() => resolve(call.sessionId)} />
+              ))}
+            </div>
+          </div>
+
+          <div className="lg:col-span-2 space-y-4">
+            {selected ? (
+              <>
+                <Card className="p-4 shadow-card flex flex-wrap items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">Session {selected.sessionId}</span>
+                    <Badge variant="outline">{statusLabels[selected.status]}</Badge>
+                    <Badge variant="outline">{SUPPORTED_LANGUAGES[selected.language].name}</Badge>
+                  </div>
+                  {selected.status === 'operator' ? (
+                    <Button size="sm" variant="outline" onClick={() => postOperatorEvent({ type: 'hand-back', sessionId: selected.sessionId })}>
+                      <Undo2 className="h-4 w-4 mr-1" />
+                      Hand Back to Agent
+                    </Button>
+                  ) : (
+                    <Button
+                      size="sm"
+                      onClick={() => postOperatorEvent({ type: 'take-over', sessionId: selected.sessionId })}
+                      disabled={selected.status === 'ended'}
+                    >
+                      <UserRound className="h-4 w-4 mr-1" />
+                      Take Over
+                    </Button>
+                  )}
+                </Card>
+
+                <TranscriptPanel session={toCallSession(selected)} onAddMessage={() => {}} isProcessing={false} setIsProcessing={() => {}} />
+
+                {selected.status === 'operator' && (
+                  <form
+                    className="flex gap-2"
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      sendReply();
+                    }}
+                  >
+                    <Input
+                      placeholder={`Type a reply; the caller hears it in the agent's voice (${SUPPORTED_LANGUAGES[selected.language].name})`}
+                      value={reply}
+                      onChange={(e) => setReply(e.target.value)}
+                      autoFocus
+                    />
+                    <Button type="submit" disabled={!reply.trim()}>
+                      <Send className="h-4 w-4 mr-1" />
+                      Say
+                    </Button>
+                  </form>
+                )}
+              </>
+            ) : (
+              <Card className="p-6 text-center text-sm text-muted-foreground">
+                Pick a call to watch its transcript live. Take it over to reply to the caller yourself, then hand it back to the agent.
+              </Card>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Operator;
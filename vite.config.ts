@@ -1,7 +1,39 @@
 import { defineConfig } from "vite";
+import type { Connect, Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
+import { buildSampleOrders } from "./src/lib/fixtures/orders";
+
+// Serves the sample orders at /mock-api/orders/:orderNumber?email=..., so the order API integration works offline;
+// like a real store API, it only returns an order to the email it was placed with
+function mockOrderApi(): Plugin {
+  const handleRequest: Connect.NextHandleFunction = (req, res) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const orderNumber = decodeURIComponent(url.pathname.replace(/^\/+/, ""));
+    const email = url.searchParams.get("email")?.toLowerCase();
+    // Built per request so the dates stay relative to today on a long-running server
+    const order = buildSampleOrders().find((candidate) => candidate.orderNumber === orderNumber);
+
+    res.setHeader("Content-Type", "application/json");
+    if (!order || !email || order.email.toLowerCase() !== email) {
+      res.statusCode = 404;
+      res.end(JSON.stringify({ error: "Order not found" }));
+      return;
+    }
+    res.end(JSON.stringify(order));
+  };
+
+  return {
+    name: "mock-order-api",
+    configureServer(server) {
+      server.middlewares.use("/mock-api/orders", handleRequest);
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use("/mock-api/orders", handleRequest);
+    },
+  };
+}
 
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
@@ -9,7 +41,7 @@ export default defineConfig(({ mode }) => ({
     host: "::",
     port: 8080,
   },
-  plugins: [react(), mode === "development" && componentTagger()].filter(Boolean),
+  plugins: [react(), mockOrderApi(), mode === "development" && componentTagger()].filter(Boolean),
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),